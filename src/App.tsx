@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { TopBar } from "./components/TopBar";
 import { VideoPlayer } from "./components/VideoPlayer";
 import { RowConfigPanel } from "./components/RowConfigPanel";
@@ -10,16 +10,9 @@ import { LiveTVPage } from "./pages/LiveTVPage";
 import { RadioPage } from "./pages/RadioPage";
 import { SettingsPage } from "./pages/SettingsPage";
 import { ContentItem, ContentRowConfig, WatchHistoryItem } from "./types/content";
-import { GroupedSeries } from "./utils/seriesGrouping";
-import { 
-  getMovies, 
-  getSeries, 
-  getTVChannels, 
-  getRadioStations, 
-  getTrending,
-  getAllContent,
-  limitItems
-} from "./utils/dataLoader";
+import { GroupedSeries, getNextEpisode } from "./utils/seriesGrouping";
+import { limitItems } from "./utils/dataLoader";
+import { useContentStore, refreshContent } from "./utils/contentStore";
 import { loadRows, saveRows, generateRowId } from "./utils/rowStorage";
 import { filterContent, applySimpleFilters, applyLiveTVFilters, applyRadioFilters } from "./utils/contentFilters";
 import { loadWatchHistory, removeFromWatchHistory } from "./utils/watchHistory";
@@ -28,8 +21,7 @@ import { computeAlphabetCounts } from "./components/FilteredPaginatedContent";
 import { loadSettings, AppSettings } from "./utils/settings";
 import { Toaster } from "./components/ui/sonner";
 import { toast } from "sonner";
-import { autoSyncIfDue as autoSyncIPTV } from "./utils/iptvSync";
-import { autoSyncIfDue as autoSyncPlex } from "./utils/plexSync";
+import { startSyncManager } from "./utils/syncManager";
 
 export default function App() {
   const [activeMenu, setActiveMenu] = useState("home");
@@ -96,13 +88,15 @@ export default function App() {
   const [hoveredHome, setHoveredHome] = useState<ContentItem | null>(null);
   const [hoveredTV, setHoveredTV] = useState<ContentItem | null>(null);
   
-  // Async loaded data
-  const [trendingContent, setTrendingContent] = useState<ContentItem[]>([]);
-  const [allMovies, setAllMovies] = useState<ContentItem[]>([]);
-  const [popularSeries, setPopularSeries] = useState<ContentItem[]>([]);
-  const [tvChannels, setTVChannels] = useState<ContentItem[]>([]);
-  const [radioStations, setRadioStations] = useState<ContentItem[]>([]);
-  const [allContent, setAllContent] = useState<ContentItem[]>([]);
+  // Async loaded data (updated in place after syncs)
+  const {
+    trendingContent,
+    movies: allMovies,
+    series: popularSeries,
+    tvChannels,
+    radioStations,
+    allContent
+  } = useContentStore();
 
   // Load rows and watch history from localStorage on mount
   useEffect(() => {
@@ -111,59 +105,45 @@ export default function App() {
     setMyList(getMyList());
     setSettings(loadSettings());
     
-    // Check for auto-sync (IPTV and Plex)
-    const performAutoSync = async () => {
-      let syncPerformed = false;
-
-      // Auto-sync IPTV
-      const iptvResult = await autoSyncIPTV((message) => {
-        toast.info(message);
-      });
-
-      if (iptvResult) {
-        if (iptvResult.success) {
-          toast.success(`IPTV: ${iptvResult.message} (${iptvResult.itemCount} items)`);
-          syncPerformed = true;
-        } else {
-          toast.error(`IPTV sync failed: ${iptvResult.message}`);
+    // Load async data
+    refreshContent();
+  }, []);
+
+  // Run scheduled syncs (registered sources and EPG) while the app is open
+  useEffect(() => {
+    return startSyncManager({
+      onProgress: (job, message, percent) => {
+        if (job.trigger === "auto") {
+          // One toast per job, updated in place
+          toast.info(percent !== undefined ? `${message} (${percent}%)` : message, { id: `sync-${job.key}` });
+        }
+      },
+      onResult: (job, result) => {
+        // Show new content in place; guide data is read on demand
+        if (result.success && job.reloadsContent) {
+          refreshContent();
+          // Syncs can import watch state from the source
+          setWatchHistory(loadWatchHistory());
         }
-      }
 
-      // Auto-sync Plex
-      const plexResult = await autoSyncPlex((message) => {
-        toast.info(message);
-      });
+        // Manual syncs report their own results in Settings
+        if (job.trigger !== "auto") return;
 
-      if (plexResult) {
-        if (plexResult.success) {
-          toast.success(`Plex: ${plexResult.message} (${plexResult.itemCount} items)`);
-          syncPerformed = true;
+        if (result.success) {
+          toast.success(`${job.name}: ${result.message} (${result.itemCount} items)`, { id: `sync-${job.key}` });
         } else {
-          toast.error(`Plex sync failed: ${plexResult.message}`);
+          toast.error(`${job.name} sync failed: ${result.message}`, { id: `sync-${job.key}` });
         }
-      }
-
-      // Reload data after sync if any sync was successful
-      if (syncPerformed) {
-        toast.info("Reloading content...");
-        // Give a small delay for the toast to be visible
-        setTimeout(() => {
-          window.location.reload();
-        }, 1500);
-      }
-    };
-
-    performAutoSync();
-
-    // Load async data
-    getTrending().then(setTrendingContent);
-    getMovies().then(setAllMovies);
-    getSeries().then(setPopularSeries);
-    getTVChannels().then(setTVChannels);
-    getRadioStations().then(setRadioStations);
-    getAllContent().then(setAllContent);
+      },
+    });
   }, []);
 
+  // Episode the player offers when the playing one ends
+  const nextEpisode = useMemo(
+    () => (playingVideo ? getNextEpisode(playingVideo, popularSeries) : null),
+    [playingVideo, popularSeries]
+  );
+
   // Refresh watch history when video closes
   useEffect(() => {
     if (!playingVideo) {
@@ -365,16 +345,6 @@ export default function App() {
     setSettings(newSettings);
   };
 
-  const reloadContentData = () => {
-    // Reload all content from data sources
-    getTrending().then(setTrendingContent);
-    getMovies().then(setAllMovies);
-    getSeries().then(setPopularSeries);
-    getTVChannels().then(setTVChannels);
-    getRadioStations().then(setRadioStations);
-    getAllContent().then(setAllContent);
-  };
-
   const handleMenuClick = (menu: string) => {
     // Check if trying to access a disabled section
     const isDisabled = 
@@ -412,7 +382,7 @@ export default function App() {
         <SettingsPage
           onClose={() => setShowSettings(false)}
           onSettingsChange={handleSettingsChange}
-          onContentReload={reloadContentData}
+          onContentReload={refreshContent}
         />
       );
     }
@@ -576,7 +546,12 @@ export default function App() {
       </main>
 
       {playingVideo && (
-        <VideoPlayer item={playingVideo} onClose={handleVideoClose} />
+        <VideoPlayer
+          item={playingVideo}
+          nextItem={nextEpisode}
+          onPlayNext={handleVideoPlay}
+          onClose={handleVideoClose}
+        />
       )}
 
       {configuringRow && (
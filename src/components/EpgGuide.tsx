@@ -0,0 +1,312 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { ChevronLeft, ChevronRight, Radio as RadioIcon, Play } from "lucide-react";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { ImageWithFallback } from "./figma/ImageWithFallback";
+import { formatProgrammeTime } from "./NowNextInfo";
+import { ContentItem } from "../types/content";
+import { EpgProgramme } from "../types/epg";
+import { getProgrammes } from "../utils/epgSync";
+import { paginateContent } from "../utils/dataLoader";
+import { applyNameFilters } from "../utils/contentFilters";
+
+interface EpgGuideProps {
+  items: ContentItem[];
+  pageSize?: number;
+  onPlay: (item: ContentItem) => void;
+  searchTerm?: string;
+  selectedLetter?: string | null;
+}
+
+const PX_PER_MINUTE = 4;
+const SLOT_MINUTES = 30;
+const WINDOW_HOURS = 24;
+const CHANNEL_COLUMN_WIDTH = 200;
+const ROW_HEIGHT = 64;
+
+const SLOT_MS = SLOT_MINUTES * 60 * 1000;
+
+/**
+ * Start of the visible timeline: the half hour of the given time, minus one slot
+ */
+function getWindowStart(at: number): number {
+  return Math.floor(at / SLOT_MS) * SLOT_MS - SLOT_MS;
+}
+
+/**
+ * TV guide grid with channels as rows and a horizontally scrolling time axis
+ */
+export function EpgGuide({
+  items,
+  pageSize = 30,
+  onPlay,
+  searchTerm = "",
+  selectedLetter = null
+}: EpgGuideProps) {
+  const [currentPage, setCurrentPage] = useState(1);
+  const [now, setNow] = useState(Date.now());
+  const [programmes, setProgrammes] = useState<Record<number, EpgProgramme[]>>({});
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const scrolledWindowRef = useRef<number | null>(null); // Window start the grid was last scrolled for
+
+  // Moves on a slot when the clock passes a slot boundary, so a guide left open keeps up
+  const windowStart = getWindowStart(now);
+
+  const windowEnd = windowStart + WINDOW_HOURS * 60 * 60 * 1000;
+  const timelineWidth = WINDOW_HOURS * 60 * PX_PER_MINUTE;
+
+  const filteredItems = useMemo(
+    () => applyNameFilters(items, searchTerm, selectedLetter),
+    [items, searchTerm, selectedLetter]
+  );
+
+  // Reset to page 1 when items or filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [items.length, searchTerm, selectedLetter]);
+
+  const { items: pageItems, totalPages } = useMemo(
+    () => paginateContent(filteredItems, currentPage, pageSize),
+    [filteredItems, currentPage, pageSize]
+  );
+
+  // Load programmes for the channels on the current page
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(pageItems.map(async (item) => [item.id, await getProgrammes(item)] as const)).then((entries) => {
+      if (cancelled) return;
+      setProgrammes(Object.fromEntries(
+        entries.map(([id, list]) => [id, list.filter((p) => p.stop > windowStart && p.start < windowEnd)])
+      ));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pageItems, windowStart, windowEnd]);
+
+  // Move the "now" line every minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const hasGrid = items.length > 0 && filteredItems.length > 0;
+
+  // Start scrolled to the current time once the grid is shown (items often arrive after mount),
+  // and keep the same programmes in view when the window moves on
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) {
+      scrolledWindowRef.current = null; // Scroll to now again when the grid comes back
+      return;
+    }
+
+    if (scrolledWindowRef.current === null) {
+      scroller.scrollLeft = Math.max(0, ((now - windowStart) / 60000 - SLOT_MINUTES) * PX_PER_MINUTE);
+    } else if (scrolledWindowRef.current !== windowStart) {
+      const shift = ((windowStart - scrolledWindowRef.current) / 60000) * PX_PER_MINUTE;
+      scroller.scrollLeft = Math.max(0, scroller.scrollLeft - shift);
+    }
+    scrolledWindowRef.current = windowStart;
+  }, [hasGrid, windowStart]);
+
+  const timeSlots = useMemo(() => {
+    const slots: number[] = [];
+    for (let t = windowStart; t < windowEnd; t += SLOT_MS) {
+      slots.push(t);
+    }
+    return slots;
+  }, [windowStart, windowEnd]);
+
+  const toOffset = (timestamp: number) =>
+    ((Math.min(Math.max(timestamp, windowStart), windowEnd) - windowStart) / 60000) * PX_PER_MINUTE;
+
+  const nowOffset = toOffset(now);
+
+  if (!hasGrid) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <p className="text-lg text-white/50">No channels found</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Page navigation */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between border-b border-white/10 pb-4">
+          <div className="text-sm text-white/50">
+            {(currentPage - 1) * pageSize + 1} - {Math.min(currentPage * pageSize, filteredItems.length)} / {filteredItems.length}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
+              disabled={currentPage === 1}
+              className="h-9 w-9 border-white/20 bg-white/5 hover:bg-white/10 disabled:opacity-30"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-white/50">
+              Page {currentPage} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
+              disabled={currentPage === totalPages}
+              className="h-9 w-9 border-white/20 bg-white/5 hover:bg-white/10 disabled:opacity-30"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        className="relative max-h-[70vh] overflow-auto rounded-md border border-white/10 bg-black/40"
+      >
+        <div className="relative" style={{ width: CHANNEL_COLUMN_WIDTH + timelineWidth }}>
+          {/* Time axis */}
+          <div className="sticky top-0 z-30 flex border-b border-white/10 bg-black/90">
+            <div
+              className="sticky left-0 z-40 shrink-0 border-r border-white/10 bg-black/90"
+              style={{ width: CHANNEL_COLUMN_WIDTH }}
+            />
+            {timeSlots.map((slot) => (
+              <div
+                key={slot}
+                className="shrink-0 border-l border-white/10 px-2 py-2 text-xs text-white/60"
+                style={{ width: SLOT_MINUTES * PX_PER_MINUTE }}
+              >
+                {formatProgrammeTime(slot)}
+              </div>
+            ))}
+          </div>
+
+          {/* Channel rows */}
+          {pageItems.map((item) => {
+            const rowProgrammes = programmes[item.id] || [];
+
+            return (
+              <div key={item.id} className="flex border-b border-white/5" style={{ height: ROW_HEIGHT }}>
+                {/* Channel column */}
+                <button
+                  type="button"
+                  onClick={() => onPlay(item)}
+                  className="sticky left-0 z-20 flex shrink-0 items-center gap-3 border-r border-white/10 bg-black/90 px-3 text-left hover:bg-white/10"
+                  style={{ width: CHANNEL_COLUMN_WIDTH }}
+                >
+                  <div className="flex h-10 w-10 shrink-0 items-center justify-center overflow-hidden rounded bg-white">
+                    {item.logo ? (
+                      <ImageWithFallback src={item.logo} alt={item.name} className="h-full w-full object-contain p-1" />
+                    ) : (
+                      <RadioIcon className="h-5 w-5 text-black/40" />
+                    )}
+                  </div>
+                  <span className="line-clamp-2 text-sm">{item.name}</span>
+                </button>
+
+                {/* Programmes */}
+                <div className="relative shrink-0" style={{ width: timelineWidth }}>
+                  {rowProgrammes.length === 0 && (
+                    <div className="flex h-full items-center px-4 text-xs text-white/30">
+                      No guide data
+                    </div>
+                  )}
+                  {rowProgrammes.map((programme) => {
+                    const left = toOffset(programme.start);
+                    const width = Math.max(toOffset(programme.stop) - left, 2);
+                    const isAiring = programme.start <= now && programme.stop > now;
+                    const cellClassName = `absolute top-1 bottom-1 overflow-hidden rounded border px-2 py-1 text-left transition-colors ${
+                      isAiring
+                        ? "border-[#E50914]/60 bg-[#E50914]/20 hover:bg-[#E50914]/30"
+                        : programme.stop <= now
+                          ? "border-white/5 bg-white/5 text-white/40 hover:bg-white/10"
+                          : "border-white/10 bg-white/10 hover:bg-white/20"
+                    }`;
+                    const cellContent = (
+                      <>
+                        <p className="truncate text-sm">{programme.title}</p>
+                        <p className="truncate text-[10px] text-white/50">
+                          {formatProgrammeTime(programme.start)} - {formatProgrammeTime(programme.stop)}
+                        </p>
+                      </>
+                    );
+
+                    // Airing now: play the channel
+                    if (isAiring) {
+                      return (
+                        <button
+                          key={`${programme.start}-${programme.title}`}
+                          type="button"
+                          onClick={() => onPlay(item)}
+                          className={cellClassName}
+                          style={{ left, width }}
+                          title={`Watch ${item.name}`}
+                        >
+                          {cellContent}
+                        </button>
+                      );
+                    }
+
+                    // Other programmes: show details
+                    return (
+                      <Popover key={`${programme.start}-${programme.title}`}>
+                        <PopoverTrigger asChild>
+                          <button type="button" className={cellClassName} style={{ left, width }}>
+                            {cellContent}
+                          </button>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-80 border-white/10 bg-zinc-900 text-white">
+                          <div className="space-y-2">
+                            <p className="text-xs text-white/50">{item.name}</p>
+                            <h4 className="font-medium">{programme.title}</h4>
+                            <p className="text-xs text-white/60">
+                              {new Date(programme.start).toLocaleDateString([], { weekday: "short", day: "numeric", month: "short" })}
+                              {" · "}
+                              {formatProgrammeTime(programme.start)} - {formatProgrammeTime(programme.stop)}
+                              {" · "}
+                              {Math.round((programme.stop - programme.start) / 60000)} min
+                            </p>
+                            {programme.category && (
+                              <span className="inline-block rounded bg-white/10 px-1.5 text-[10px]">{programme.category}</span>
+                            )}
+                            {programme.description && (
+                              <p className="text-sm text-white/80">{programme.description}</p>
+                            )}
+                          </div>
+                        </PopoverContent>
+                      </Popover>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+
+          {/* Now line */}
+          {now >= windowStart && now < windowEnd && (
+            <div
+              className="pointer-events-none absolute top-0 bottom-0 z-10 w-0.5 bg-[#E50914]"
+              style={{ left: CHANNEL_COLUMN_WIDTH + nowOffset }}
+            >
+              <div className="absolute -left-1 top-0 h-2.5 w-2.5 rounded-full bg-[#E50914]" />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Play the selected channel from the guide */}
+      <p className="flex items-center gap-2 text-xs text-white/40">
+        <Play className="h-3 w-3" />
+        Click a programme airing now to watch the channel, or any other programme for details
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+import { useEffect, useState } from "react";
+import { RefreshCw, Calendar, HardDrive, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { SourceSettingsSectionProps, SyncScheduleFields, formatLastSync } from "./SourceSettingsSection";
+import { IPTVPlaylist, createPlaylist, getNextIdSlot, loadSettings } from "../utils/settings";
+import { iptvAdapter, getIPTVCacheInfo, clearIPTVData } from "../utils/iptvSync";
+import { requestSync } from "../utils/syncManager";
+import { clearCache } from "../utils/dataLoader";
+
+interface PlaylistCacheInfo {
+  exists: boolean;
+  itemCount?: number;
+  storageSize?: number;
+  driver?: string;
+  driverName?: string;
+  lastModified?: string;
+}
+
+/**
+ * IPTV settings: a card per playlist with its own URL, schedule and cache info
+ */
+export function IPTVPlaylistSettings({ adapter, settings, onSettingsChange, onContentReload }: SourceSettingsSectionProps) {
+  const [syncingPlaylistId, setSyncingPlaylistId] = useState<string | null>(null);
+  const [playlistCacheInfo, setPlaylistCacheInfo] = useState<Record<string, PlaylistCacheInfo>>({});
+
+  const { enabledKey } = adapter.settingsSchema;
+
+  // Load IPTV cache info on mount and when IPTV is enabled
+  useEffect(() => {
+    if (settings[enabledKey]) {
+      settings.iptvPlaylists.forEach((playlist) => loadCacheInfo(playlist.id));
+    }
+  }, [settings[enabledKey]]);
+
+  const loadCacheInfo = async (playlistId: string) => {
+    try {
+      const info = await getIPTVCacheInfo(playlistId);
+      if (info && info.success) {
+        setPlaylistCacheInfo((prev) => ({
+          ...prev,
+          [playlistId]: {
+            exists: info.exists || false,
+            itemCount: info.itemCount,
+            storageSize: info.storageSize,
+            driver: info.driver,
+            driverName: info.driverName,
+            lastModified: info.lastModified,
+          },
+        }));
+      } else if (info && !info.success) {
+        console.error("Failed to get IPTV cache info:", info.error);
+      }
+    } catch (error) {
+      console.error("Error loading IPTV cache info:", error);
+    }
+  };
+
+  const handlePlaylistChange = (playlistId: string, changes: Partial<IPTVPlaylist>) => {
+    onSettingsChange({
+      ...settings,
+      iptvPlaylists: settings.iptvPlaylists.map((playlist) =>
+        playlist.id === playlistId ? { ...playlist, ...changes } : playlist
+      ),
+    });
+  };
+
+  const handlePlaylistFieldChange = (
+    playlistId: string,
+    key: "name" | "url" | "syncTime",
+    value: string
+  ) => {
+    onSettingsChange(
+      {
+        ...settings,
+        iptvPlaylists: settings.iptvPlaylists.map((playlist) =>
+          playlist.id === playlistId ? { ...playlist, [key]: value } : playlist
+        ),
+      },
+      { debounce: true }
+    );
+  };
+
+  const handleAddPlaylist = () => {
+    const playlist = createPlaylist(
+      `Playlist ${settings.iptvPlaylists.length + 1}`,
+      "",
+      getNextIdSlot(settings.iptvPlaylists)
+    );
+    onSettingsChange({ ...settings, iptvPlaylists: [...settings.iptvPlaylists, playlist] });
+  };
+
+  const handleRemovePlaylist = async (playlist: IPTVPlaylist) => {
+    onSettingsChange({
+      ...settings,
+      iptvPlaylists: settings.iptvPlaylists.filter((p) => p.id !== playlist.id),
+    });
+    setPlaylistCacheInfo((prev) => {
+      const { [playlist.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    await clearIPTVData(playlist.id);
+    toast.success(`Removed playlist "${playlist.name}"`);
+    clearCache();
+    onContentReload?.();
+  };
+
+  const handleManualSync = async (playlist: IPTVPlaylist) => {
+    if (!playlist.url) {
+      toast.error("Please enter a playlist URL first");
+      return;
+    }
+
+    // Save settings before syncing to ensure URL is persisted
+    onSettingsChange(settings);
+
+    setSyncingPlaylistId(playlist.id);
+    const result = await requestSync(iptvAdapter.id, playlist.id, (message) => {
+      toast.info(message);
+    });
+    setSyncingPlaylistId(null);
+
+    if (result.success) {
+      toast.success(`${result.message} (${result.itemCount} items)`);
+      // Pick up the last sync time and item count stored by the sync
+      const syncedPlaylist = loadSettings().iptvPlaylists.find((p) => p.id === playlist.id);
+      onSettingsChange({
+        ...settings,
+        iptvPlaylists: settings.iptvPlaylists.map((p) =>
+          p.id === playlist.id && syncedPlaylist
+            ? { ...p, lastSync: syncedPlaylist.lastSync, itemCount: syncedPlaylist.itemCount }
+            : p
+        ),
+      });
+      // Reload cache info
+      await loadCacheInfo(playlist.id);
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  return (
+    <section className="p-6 border border-white/10 rounded-lg bg-white/5 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl mb-1">{adapter.displayName}</h2>
+          <p className="text-white/60 text-sm">{adapter.description}</p>
+        </div>
+        <Switch
+          checked={settings[enabledKey]}
+          onCheckedChange={(checked) => {
+            onSettingsChange({ ...settings, [enabledKey]: checked });
+            onContentReload?.();
+          }}
+        />
+      </div>
+
+      {settings[enabledKey] && (
+        <div className="space-y-6">
+          {settings.iptvPlaylists.length === 0 && (
+            <p className="text-sm text-white/60">No playlists yet. Add one to get started.</p>
+          )}
+
+          {settings.iptvPlaylists.map((playlist) => {
+            const cacheInfo = playlistCacheInfo[playlist.id];
+            const isSyncing = syncingPlaylistId === playlist.id;
+
+            return (
+              <div
+                key={playlist.id}
+                className="p-4 border border-white/10 rounded-lg bg-white/5 space-y-6"
+              >
+                {/* Playlist Header */}
+                <div className="flex items-center gap-3">
+                  <Input
+                    aria-label="Playlist name"
+                    value={playlist.name}
+                    onChange={(e) => handlePlaylistFieldChange(playlist.id, "name", e.target.value)}
+                    className="border-white/20 bg-transparent text-white placeholder:text-white/40"
+                  />
+                  <Switch
+                    checked={playlist.enabled}
+                    onCheckedChange={(checked) => {
+                      handlePlaylistChange(playlist.id, { enabled: checked });
+                      clearCache();
+                      onContentReload?.();
+                    }}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemovePlaylist(playlist)}
+                    className="h-9 w-9 shrink-0 hover:bg-white/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {/* Playlist URL */}
+                <div className="space-y-2">
+                  <Label htmlFor={`iptv-url-${playlist.id}`}>Playlist URL</Label>
+                  <Input
+                    id={`iptv-url-${playlist.id}`}
+                    type="url"
+                    placeholder="https://example.com/playlist.m3u"
+                    value={playlist.url}
+                    onChange={(e) => handlePlaylistFieldChange(playlist.id, "url", e.target.value)}
+                    className="border-white/20 bg-transparent text-white placeholder:text-white/40"
+                  />
+                </div>
+
+                {/* Auto Sync Toggle */}
+                <div className="flex items-center justify-between pt-6 border-t border-white/10">
+                  <div>
+                    <Label>Auto Sync</Label>
+                    <p className="text-sm text-white/60 mt-1">Automatically download updates</p>
+                  </div>
+                  <Switch
+                    checked={playlist.autoSync}
+                    onCheckedChange={(checked) => handlePlaylistChange(playlist.id, { autoSync: checked })}
+                  />
+                </div>
+
+                {/* Auto Sync Settings */}
+                {playlist.autoSync && (
+                  <SyncScheduleFields
+                    idPrefix={`iptv-${playlist.id}`}
+                    syncIntervalDays={playlist.syncIntervalDays}
+                    syncTime={playlist.syncTime}
+                    description="Downloads will occur at this time each interval"
+                    onIntervalChange={(days) => handlePlaylistChange(playlist.id, { syncIntervalDays: days })}
+                    onTimeChange={(time) => handlePlaylistFieldChange(playlist.id, "syncTime", time)}
+                  />
+                )}
+
+                {/* Last Sync Info & Manual Sync */}
+                <div className="flex items-center justify-between pt-6 border-t border-white/10">
+                  <div className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4 text-white/50" />
+                    <div>
+                      <p className="text-sm text-white/70">Last synced</p>
+                      <p className="text-sm text-white/90 mt-0.5">
+                        {formatLastSync(playlist.lastSync)}
+                        {playlist.itemCount !== null && (
+                          <span className="text-white/50"> · {playlist.itemCount.toLocaleString()} items</span>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    onClick={() => handleManualSync(playlist)}
+                    disabled={syncingPlaylistId !== null || !playlist.enabled || !playlist.url}
+                    variant="outline"
+                    className="border-[#E50914]/50 bg-[#E50914]/10 hover:bg-[#E50914]/20 text-white"
+                  >
+                    <RefreshCw className={`h-4 w-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} />
+                    {isSyncing ? "Syncing..." : "Sync Now"}
+                  </Button>
+                </div>
+
+                {/* Cache Info */}
+                {cacheInfo && (
+                  <div className="p-4 border border-white/10 rounded-lg bg-white/5 space-y-3">
+                    <div className="flex items-center gap-2 text-white/70 mb-2">
+                      <HardDrive className="h-4 w-4" />
+                      <span className="text-sm font-medium">Storage Information</span>
+                    </div>
+                    {cacheInfo.exists ? (
+                      <>
+                        <div className="grid grid-cols-3 gap-4 text-sm">
+                          <div>
+                            <p className="text-white/50">Items Cached</p>
+                            <p className="text-white/90 font-medium">
+                              {cacheInfo.itemCount?.toLocaleString() || "N/A"}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-white/50">Storage Size</p>
+                            <p className="text-white/90 font-medium">
+                              {cacheInfo.storageSize
+                                ? `${(cacheInfo.storageSize / 1024 / 1024).toFixed(2)} MB`
+                                : "N/A"}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-white/50">Storage Type</p>
+                            <p className="text-white/90 font-medium">
+                              {cacheInfo.driverName || "Unknown"}
+                            </p>
+                          </div>
+                        </div>
+                        {cacheInfo.lastModified && (
+                          <div className="pt-2 border-t border-white/5">
+                            <p className="text-white/50 text-xs">Last Modified</p>
+                            <p className="text-white/70 text-sm">
+                              {new Date(cacheInfo.lastModified).toLocaleString()}
+                            </p>
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <div className="space-y-2">
+                        <p className="text-sm text-white/60">No cache found. Sync to create cache.</p>
+                        {cacheInfo.driverName && (
+                          <div className="pt-2 border-t border-white/5">
+                            <p className="text-white/50 text-xs">Storage Type (Ready)</p>
+                            <p className="text-white/70 text-sm">
+                              {cacheInfo.driverName}
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {/* Add Playlist */}
+          <Button
+            onClick={handleAddPlaylist}
+            variant="outline"
+            className="w-full border-white/20 bg-white/5 hover:bg-white/10"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Playlist
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from "./ui/button";
 import { TVChannelCard } from "./TVChannelCard";
 import { ContentItem } from "../types/content";
 import { paginateContent } from "../utils/dataLoader";
+import { applyNameFilters } from "../utils/contentFilters";
 
 interface LiveTVPaginatedContentProps {
   items: ContentItem[];
@@ -29,35 +30,10 @@ export function LiveTVPaginatedContent({
   const [currentPage, setCurrentPage] = useState(1);
 
   // Filter items by search term and letter (Turkish-aware)
-  const filteredItems = useMemo(() => {
-    let result = items;
-    
-    // Apply search filter (fuzzy contains search, Turkish locale aware)
-    if (searchTerm.trim() !== "") {
-      const searchLower = searchTerm.toLocaleLowerCase("tr-TR");
-      result = result.filter(item => {
-        const nameLower = item.name?.toLocaleLowerCase("tr-TR") || "";
-        return nameLower.includes(searchLower);
-      });
-    }
-    
-    // Apply letter filter
-    if (selectedLetter) {
-      if (selectedLetter === "0-9") {
-        result = result.filter(item => {
-          const firstChar = item.name?.charAt(0);
-          return /[0-9]/.test(firstChar || "");
-        });
-      } else {
-        result = result.filter(item => {
-          const firstChar = item.name?.charAt(0).toLocaleUpperCase("tr-TR") || "";
-          return firstChar === selectedLetter;
-        });
-      }
-    }
-    
-    return result;
-  }, [items, searchTerm, selectedLetter]);
+  const filteredItems = useMemo(
+    () => applyNameFilters(items, searchTerm, selectedLetter),
+    [items, searchTerm, selectedLetter]
+  );
 
   // Reset to page 1 when items or filters change
   useEffect(() => {
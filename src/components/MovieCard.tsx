@@ -92,6 +92,8 @@ export function MovieCard({ item, onDetailsClick, onPlay, onHover, variant = 'de
           >
               {item.source === "Plex"
                   ? (<div className="rounded px-1 bg-[#E5A00D]/80 text-black">Plex</div>)
+                  : item.source === "Jellyfin"
+                  ? (<div className="rounded px-1 bg-[#AA5CC3]/80">{item.platform || "Jellyfin"}</div>)
                   : (<div className="rounded px-1 border border-white/40">{item.source}</div>)
               }
               {item.platform && (<div>{item.platform}</div>)}
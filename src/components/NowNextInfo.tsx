@@ -0,0 +1,124 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { ContentItem } from "../types/content";
+import { NowNext } from "../types/epg";
+import { getNowNext } from "../utils/epgSync";
+import { loadSettings } from "../utils/settings";
+
+interface NowNextInfoProps {
+  item: ContentItem;
+  compact?: boolean;
+}
+
+const REFRESH_INTERVAL = 60 * 1000;
+
+interface GuideClock {
+  now: number;
+  epgEnabled: boolean;
+}
+
+// One clock for every card on screen: a single interval, with the settings read once per tick
+let guideClock: GuideClock | null = null;
+let clockInterval: ReturnType<typeof setInterval> | null = null;
+const clockListeners = new Set<() => void>();
+
+const readGuideClock = (): GuideClock => ({ now: Date.now(), epgEnabled: loadSettings().epgEnabled });
+
+function subscribeGuideClock(listener: () => void): () => void {
+  clockListeners.add(listener);
+  if (!clockInterval) {
+    guideClock = readGuideClock(); // The clock stood still while nothing was shown
+    clockInterval = setInterval(() => {
+      guideClock = readGuideClock();
+      clockListeners.forEach((notify) => notify());
+    }, REFRESH_INTERVAL);
+  }
+
+  return () => {
+    clockListeners.delete(listener);
+    if (clockListeners.size === 0 && clockInterval) {
+      clearInterval(clockInterval);
+      clockInterval = null;
+    }
+  };
+}
+
+const getGuideClock = () => (guideClock ??= readGuideClock());
+
+export function formatProgrammeTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Shows the current and next programme of a live channel from the EPG
+ * Renders nothing when the channel has no guide data
+ */
+export function NowNextInfo({ item, compact = false }: NowNextInfoProps) {
+  const [nowNext, setNowNext] = useState<NowNext | null>(null);
+  const clock = useSyncExternalStore(subscribeGuideClock, getGuideClock);
+
+  useEffect(() => {
+    if (!clock.epgEnabled) {
+      setNowNext(null);
+      return;
+    }
+
+    let cancelled = false;
+    getNowNext(item, clock.now).then((result) => {
+      if (!cancelled) setNowNext(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [item, clock]);
+
+  if (!nowNext) return null;
+
+  const { now, next, progress } = nowNext;
+
+  if (compact) {
+    return (
+      <div className="mt-1 space-y-1">
+        {now && (
+          <>
+            <p className="line-clamp-1 text-xs text-white/80" title={now.title}>{now.title}</p>
+            <div className="h-0.5 w-full overflow-hidden rounded bg-white/20">
+              <div className="h-full bg-[#E50914]" style={{ width: `${progress}%` }} />
+            </div>
+          </>
+        )}
+        {next && (
+          <p className="line-clamp-1 text-[10px] text-white/50" title={next.title}>
+            Next: {formatProgrammeTime(next.start)} {next.title}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-1 max-w-xl space-y-1">
+      {now && (
+        <div className="flex items-center gap-3">
+          <span className="rounded bg-[#E50914] px-1.5 text-[10px] font-medium uppercase">Now</span>
+          <p className="line-clamp-1 text-sm text-white/90">{now.title}</p>
+          <span className="shrink-0 text-xs text-white/60">
+            {formatProgrammeTime(now.start)} - {formatProgrammeTime(now.stop)}
+          </span>
+        </div>
+      )}
+      {now && (
+        <div className="h-1 w-full overflow-hidden rounded bg-white/20">
+          <div className="h-full bg-[#E50914]" style={{ width: `${progress}%` }} />
+        </div>
+      )}
+      {next && (
+        <div className="flex items-center gap-3 text-white/60">
+          <span className="rounded bg-white/20 px-1.5 text-[10px] font-medium uppercase">Next</span>
+          <p className="line-clamp-1 text-sm">{next.title}</p>
+          <span className="shrink-0 text-xs">{formatProgrammeTime(next.start)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useRef, useState } from "react";
+import { Check, FileUp, Link, Minus, Plus } from "lucide-react";
+import { AUTO_QUALITY, MediaTrack, QualityLevel } from "../types/playback";
+
+interface PlayerSettingsMenuProps {
+  qualityLevels: QualityLevel[];
+  selectedQuality: number; // AUTO_QUALITY or a level index
+  playingQuality: number | null; // Level the engine is playing, shown next to Auto
+  onSelectQuality: (index: number) => void;
+  audioTracks: MediaTrack[];
+  selectedAudioTrack: number | null;
+  onSelectAudioTrack: (id: number) => void;
+  textTracks: MediaTrack[];
+  selectedTextTrack: number | null; // null when subtitles are off
+  onSelectTextTrack: (id: number | null) => void;
+  // Subtitle loading, left out when the player can't show loaded subtitles (mpv)
+  onLoadSubtitleFile?: (file: File) => void;
+  onLoadSubtitleUrl?: (url: string) => void;
+  subtitleOffset: number | null; // Seconds, null unless a loaded subtitle is selected
+  onSubtitleOffsetChange: (offset: number) => void;
+}
+
+const SUBTITLE_OFFSET_STEP = 0.5; // Seconds
+const SUBTITLE_FILE_TYPES = ".srt,.vtt,.ass,.ssa";
+
+/**
+ * Player settings panel, opened from the Settings button
+ * Rendered inside the player so it stays visible in fullscreen
+ */
+export function PlayerSettingsMenu({
+  qualityLevels,
+  selectedQuality,
+  playingQuality,
+  onSelectQuality,
+  audioTracks,
+  selectedAudioTrack,
+  onSelectAudioTrack,
+  textTracks,
+  selectedTextTrack,
+  onSelectTextTrack,
+  onLoadSubtitleFile,
+  onLoadSubtitleUrl,
+  subtitleOffset,
+  onSubtitleOffsetChange
+}: PlayerSettingsMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showUrlInput, setShowUrlInput] = useState(false);
+  const [subtitleUrl, setSubtitleUrl] = useState("");
+
+  const playingLabel = qualityLevels.find((level) => level.index === playingQuality)?.label;
+  // Highest quality first
+  const sortedLevels = [...qualityLevels].sort((a, b) => (b.height || 0) - (a.height || 0) || b.bitrate - a.bitrate);
+
+  const renderOption = (key: string, label: string, selected: boolean, onSelect: () => void) => (
+    <button
+      key={key}
+      onClick={onSelect}
+      className="flex w-full items-center gap-3 rounded px-3 py-1.5 text-left text-sm hover:bg-white/10"
+    >
+      <Check className={`h-4 w-4 ${selected ? "opacity-100" : "opacity-0"}`} />
+      {label}
+    </button>
+  );
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onLoadSubtitleFile?.(file);
+    }
+    e.target.value = ""; // Lets the same file be picked again
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!subtitleUrl.trim()) return;
+    onLoadSubtitleUrl?.(subtitleUrl.trim());
+    setSubtitleUrl("");
+    setShowUrlInput(false);
+  };
+
+  const renderHeading = (title: string) => (
+    <p className="px-3 py-1.5 text-xs uppercase tracking-wide text-white/50">{title}</p>
+  );
+
+  return (
+    <div className="absolute bottom-16 right-0 max-h-[60vh] w-56 overflow-y-auto rounded-lg border border-white/10 bg-black/90 p-2 backdrop-blur-sm">
+      {renderHeading("Quality")}
+      {qualityLevels.length === 0 ? (
+        <p className="px-3 py-1.5 text-sm text-white/70">Original</p>
+      ) : (
+        <>
+          {renderOption(
+            "auto",
+            playingLabel ? `Auto (${playingLabel})` : "Auto",
+            selectedQuality === AUTO_QUALITY,
+            () => onSelectQuality(AUTO_QUALITY)
+          )}
+          {sortedLevels.map((level) =>
+            renderOption(`${level.index}`, level.label, selectedQuality === level.index, () => onSelectQuality(level.index))
+          )}
+        </>
+      )}
+
+      {/* A single audio track leaves nothing to choose */}
+      {audioTracks.length > 1 && (
+        <>
+          {renderHeading("Audio")}
+          {audioTracks.map((track) =>
+            renderOption(`${track.id}`, track.label, selectedAudioTrack === track.id, () => onSelectAudioTrack(track.id))
+          )}
+        </>
+      )}
+
+      {(textTracks.length > 0 || onLoadSubtitleFile) && (
+        <>
+          {renderHeading("Subtitles")}
+          {renderOption("off", "Off", selectedTextTrack === null, () => onSelectTextTrack(null))}
+          {textTracks.map((track) =>
+            renderOption(`${track.id}`, track.label, selectedTextTrack === track.id, () => onSelectTextTrack(track.id))
+          )}
+
+          {subtitleOffset !== null && (
+            <div className="flex items-center justify-between px-3 py-1.5 text-sm">
+              <span className="text-white/70">Timing</span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => onSubtitleOffsetChange(subtitleOffset - SUBTITLE_OFFSET_STEP)}
+                  className="rounded p-1 hover:bg-white/10"
+                  title="Show subtitles earlier"
+                >
+                  <Minus className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => onSubtitleOffsetChange(0)}
+                  className="w-14 rounded py-0.5 text-center tabular-nums hover:bg-white/10"
+                  title="Reset timing"
+                >
+                  {subtitleOffset > 0 ? "+" : ""}{subtitleOffset.toFixed(1)}s
+                </button>
+                <button
+                  onClick={() => onSubtitleOffsetChange(subtitleOffset + SUBTITLE_OFFSET_STEP)}
+                  className="rounded p-1 hover:bg-white/10"
+                  title="Show subtitles later"
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {onLoadSubtitleFile && (
+            <>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex w-full items-center gap-3 rounded px-3 py-1.5 text-left text-sm text-white/70 hover:bg-white/10"
+              >
+                <FileUp className="h-4 w-4" />
+                Load from file…
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={SUBTITLE_FILE_TYPES}
+                onChange={handleFileChange}
+                className="hidden"
+              />
+            </>
+          )}
+
+          {onLoadSubtitleUrl && (showUrlInput ? (
+            <form onSubmit={handleUrlSubmit} className="px-3 py-1.5">
+              <input
+                type="url"
+                value={subtitleUrl}
+                onChange={(e) => setSubtitleUrl(e.target.value)}
+                onKeyDown={(e) => e.stopPropagation()} // Keeps player shortcuts out of the field
+                placeholder="https://…/subtitles.srt"
+                autoFocus
+                className="w-full rounded border border-white/20 bg-white/10 px-2 py-1 text-sm placeholder:text-white/40 focus:border-[#E50914] focus:outline-none"
+              />
+            </form>
+          ) : (
+            <button
+              onClick={() => setShowUrlInput(true)}
+              className="flex w-full items-center gap-3 rounded px-3 py-1.5 text-left text-sm text-white/70 hover:bg-white/10"
+            >
+              <Link className="h-4 w-4" />
+              Load from URL…
+            </button>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useRef, useState } from "react";
+import { Plus, Trash2, Search, Film, Tv, LogIn } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { SourceSettingsSection, SourceSettingsSectionProps } from "./SourceSettingsSection";
+import { PlexServer, PlexLibrarySelection, PlexPlaybackMode, createPlexServer, getNextIdSlot } from "../utils/settings";
+import { fetchPlexLibraries } from "../utils/plexSync";
+import { PlexServerConnection, PlexServerResource } from "../utils/plexAuth";
+import { PlexSignInDialog } from "./PlexSignInDialog";
+
+// Transcode bitrate limits in kbps, 0 for no limit
+const MAX_BITRATE_OPTIONS = [
+  { value: 0, label: "Original quality" },
+  { value: 20000, label: "20 Mbps (1080p)" },
+  { value: 12000, label: "12 Mbps (1080p)" },
+  { value: 8000, label: "8 Mbps (1080p)" },
+  { value: 4000, label: "4 Mbps (720p)" },
+  { value: 2000, label: "2 Mbps (720p)" },
+  { value: 720, label: "720 kbps (SD)" },
+];
+
+/**
+ * Plex settings: a card per server with its own token and library selection
+ * Schedule and Sync Now come from the shared source section
+ */
+export function PlexServerSettings(props: SourceSettingsSectionProps) {
+  const { settings, onSettingsChange } = props;
+  const [discoveringServerId, setDiscoveringServerId] = useState<string | null>(null);
+  const [isSignInOpen, setIsSignInOpen] = useState(false);
+
+  // Latest settings, for changes applied after a request finishes
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  const handleServerChange = (serverId: string, changes: Partial<PlexServer>, options?: { debounce?: boolean }) => {
+    const current = settingsRef.current;
+    onSettingsChange(
+      {
+        ...current,
+        plexServers: current.plexServers.map((server) =>
+          server.id === serverId ? { ...server, ...changes } : server
+        ),
+      },
+      options
+    );
+  };
+
+  const handleAddServer = () => {
+    const server = createPlexServer(
+      `Plex Server ${settings.plexServers.length + 1}`,
+      "",
+      "",
+      getNextIdSlot(settings.plexServers)
+    );
+    onSettingsChange({ ...settings, plexServers: [...settings.plexServers, server] });
+  };
+
+  const handleRemoveServer = (server: PlexServer) => {
+    onSettingsChange({
+      ...settings,
+      plexServers: settings.plexServers.filter((s) => s.id !== server.id),
+    });
+    toast.success(`Removed server "${server.name}". Its items are removed on the next sync.`);
+  };
+
+  const handleSelectSignInServer = (resource: PlexServerResource, connection: PlexServerConnection) => {
+    setIsSignInOpen(false);
+
+    // Signing in again refreshes the token of a server that was already added
+    const existing = settings.plexServers.find((server) => server.url.replace(/\/$/, "") === connection.uri);
+    if (existing) {
+      handleServerChange(existing.id, { token: resource.accessToken });
+      toast.success(`Updated the token for "${existing.name}"`);
+      return;
+    }
+
+    const server = createPlexServer(resource.name, connection.uri, resource.accessToken, getNextIdSlot(settings.plexServers));
+    onSettingsChange({ ...settings, plexServers: [...settings.plexServers, server] });
+    toast.success(`Added server "${resource.name}"`);
+  };
+
+  const handleDiscoverLibraries = async (server: PlexServer) => {
+    if (!server.url || !server.token) {
+      toast.error("Please enter the server URL and token first");
+      return;
+    }
+
+    setDiscoveringServerId(server.id);
+
+    try {
+      const libraries = await fetchPlexLibraries(server.url, server.token);
+
+      // Merge into the server as it is now, keeping edits made during the request
+      const current = settingsRef.current.plexServers.find((s) => s.id === server.id);
+      if (!current) return; // Removed while discovering
+
+      // Keep earlier choices; newly found libraries are included
+      const selections: PlexLibrarySelection[] = libraries.map((library) => ({
+        ...library,
+        enabled: current.libraries.find((selection) => selection.key === library.key)?.enabled ?? true,
+      }));
+      handleServerChange(server.id, { libraries: selections });
+      toast.success(`Plex connection successful! Found ${libraries.length} libraries ✓`);
+    } catch (error) {
+      toast.error(`Plex connection error: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setDiscoveringServerId(null);
+    }
+  };
+
+  return (
+    <SourceSettingsSection {...props}>
+      <div className="space-y-6">
+        {settings.plexServers.length === 0 && (
+          <p className="text-sm text-white/60">No servers yet. Add one to get started.</p>
+        )}
+
+        {settings.plexServers.map((server) => {
+          const isDiscovering = discoveringServerId === server.id;
+
+          return (
+            <div
+              key={server.id}
+              className="p-4 border border-white/10 rounded-lg bg-white/5 space-y-6"
+            >
+              {/* Server Header */}
+              <div className="flex items-center gap-3">
+                <Input
+                  aria-label="Server name"
+                  value={server.name}
+                  onChange={(e) => handleServerChange(server.id, { name: e.target.value }, { debounce: true })}
+                  className="border-white/20 bg-transparent text-white placeholder:text-white/40"
+                />
+                <Switch
+                  checked={server.enabled}
+                  onCheckedChange={(checked) => handleServerChange(server.id, { enabled: checked })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemoveServer(server)}
+                  className="h-9 w-9 shrink-0 hover:bg-white/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {/* Server URL */}
+              <div className="space-y-2">
+                <Label htmlFor={`plex-url-${server.id}`}>Plex Server URL</Label>
+                <Input
+                  id={`plex-url-${server.id}`}
+                  type="url"
+                  placeholder="http://192.168.1.100:32400"
+                  value={server.url}
+                  onChange={(e) => handleServerChange(server.id, { url: e.target.value }, { debounce: true })}
+                  className="border-white/20 bg-transparent text-white placeholder:text-white/40"
+                />
+                <p className="text-xs text-white/50">Include the full URL with port (typically 32400)</p>
+              </div>
+
+              {/* Server Token */}
+              <div className="space-y-2">
+                <Label htmlFor={`plex-token-${server.id}`}>Plex Token</Label>
+                <Input
+                  id={`plex-token-${server.id}`}
+                  type="text"
+                  placeholder="xxxxxxxxxxxxxxxxxxxx"
+                  value={server.token}
+                  onChange={(e) => handleServerChange(server.id, { token: e.target.value }, { debounce: true })}
+                  className="border-white/20 bg-transparent text-white placeholder:text-white/40 font-mono text-sm"
+                />
+                <p className="text-xs text-white/50">
+                  Filled in by Sign in with Plex, or find your token at{" "}
+                  <a
+                    href="https://support.plex.tv/articles/204059436-finding-an-authentication-token-x-plex-token/"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-[#E50914] hover:underline"
+                  >
+                    Plex Support
+                  </a>
+                </p>
+              </div>
+
+              {/* Libraries */}
+              <div className="space-y-4 pt-6 border-t border-white/10">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label>Libraries</Label>
+                    <p className="text-sm text-white/60 mt-1">
+                      {server.libraries.length > 0
+                        ? "Changes apply on the next sync"
+                        : "All movie and TV show libraries are synced"}
+                    </p>
+                  </div>
+                  <Button
+                    onClick={() => handleDiscoverLibraries(server)}
+                    disabled={isDiscovering || !server.url || !server.token}
+                    variant="outline"
+                    size="sm"
+                    className="border-[#E50914]/50 bg-[#E50914]/10 hover:bg-[#E50914]/20 text-white"
+                  >
+                    <Search className={`h-3 w-3 mr-2 ${isDiscovering ? "animate-pulse" : ""}`} />
+                    {isDiscovering ? "Connecting..." : "Discover Libraries"}
+                  </Button>
+                </div>
+
+                {server.libraries.map((library) => (
+                  <div key={library.key} className="flex items-center justify-between pl-4 border-l-2 border-[#E50914]/30">
+                    <div className="flex items-center gap-2">
+                      {library.type === "movie" ? (
+                        <Film className="h-4 w-4 text-white/50" />
+                      ) : (
+                        <Tv className="h-4 w-4 text-white/50" />
+                      )}
+                      <span className="text-sm">{library.title}</span>
+                    </div>
+                    <Switch
+                      checked={library.enabled}
+                      onCheckedChange={(checked) =>
+                        handleServerChange(server.id, {
+                          libraries: server.libraries.map((l) => (l.key === library.key ? { ...l, enabled: checked } : l)),
+                        })
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        {/* Add Server */}
+        <div className="flex gap-3">
+          <Button
+            onClick={() => setIsSignInOpen(true)}
+            variant="outline"
+            className="flex-1 border-[#E50914]/50 bg-[#E50914]/10 hover:bg-[#E50914]/20 text-white"
+          >
+            <LogIn className="h-4 w-4 mr-2" />
+            Sign in with Plex
+          </Button>
+          <Button
+            onClick={handleAddServer}
+            variant="outline"
+            className="flex-1 border-white/20 bg-white/5 hover:bg-white/10"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Server Manually
+          </Button>
+        </div>
+
+        {/* Playback */}
+        <div className="space-y-4 pt-6 border-t border-white/10">
+          <div className="space-y-2">
+            <Label htmlFor="plex-playback-mode">Playback</Label>
+            <Select
+              value={settings.plexPlaybackMode}
+              onValueChange={(value) => onSettingsChange({ ...settings, plexPlaybackMode: value as PlexPlaybackMode })}
+            >
+              <SelectTrigger id="plex-playback-mode" className="border-white/20 bg-transparent text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Automatic</SelectItem>
+                <SelectItem value="directPlay">Always direct play</SelectItem>
+                <SelectItem value="transcode">Always transcode</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-white/50">
+              Automatic plays files as-is and has the server transcode codecs your browser can't decode
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="plex-max-bitrate">Maximum Bitrate</Label>
+            <Select
+              value={settings.plexMaxBitrate.toString()}
+              onValueChange={(value) => onSettingsChange({ ...settings, plexMaxBitrate: parseInt(value) })}
+              disabled={settings.plexPlaybackMode === "directPlay"}
+            >
+              <SelectTrigger id="plex-max-bitrate" className="border-white/20 bg-transparent text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MAX_BITRATE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value.toString()}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-white/50">Items above this bitrate are transcoded down to it</p>
+          </div>
+        </div>
+      </div>
+
+      <PlexSignInDialog
+        open={isSignInOpen}
+        onOpenChange={setIsSignInOpen}
+        onSelectServer={handleSelectSignInServer}
+      />
+    </SourceSettingsSection>
+  );
+}
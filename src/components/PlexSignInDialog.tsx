@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { ExternalLink, Loader2, Server } from "lucide-react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import {
+  PlexPin,
+  PlexServerConnection,
+  PlexServerResource,
+  createPlexPin,
+  waitForPlexPin,
+  fetchPlexServers
+} from "../utils/plexAuth";
+
+interface PlexSignInDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelectServer: (server: PlexServerResource, connection: PlexServerConnection) => void;
+}
+
+type SignInState =
+  | { step: "starting" }
+  | { step: "waiting"; pin: PlexPin }
+  | { step: "servers"; servers: PlexServerResource[] }
+  | { step: "error"; message: string };
+
+const connectionLabel = (connection: PlexServerConnection) =>
+  connection.relay ? "Relay" : connection.local ? "Local" : "Remote";
+
+/**
+ * Signs in to plex.tv with a PIN, then lists the account's servers to pick a connection from
+ */
+export function PlexSignInDialog({ open, onOpenChange, onSelectServer }: PlexSignInDialogProps) {
+  const [state, setState] = useState<SignInState>({ step: "starting" });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const controller = new AbortController();
+    setState({ step: "starting" });
+
+    (async () => {
+      try {
+        const pin = await createPlexPin(controller.signal);
+        setState({ step: "waiting", pin });
+
+        const accountToken = await waitForPlexPin(pin, controller.signal);
+        const servers = await fetchPlexServers(accountToken, controller.signal);
+        setState({ step: "servers", servers });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setState({ step: "error", message: error instanceof Error ? error.message : "Unknown error" });
+      }
+    })();
+
+    // Stop polling and discovery when the dialog closes
+    return () => controller.abort();
+  }, [open, attempt]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-zinc-900 border-white/10 text-white">
+        <DialogHeader>
+          <DialogTitle>Sign in with Plex</DialogTitle>
+          <DialogDescription className="text-white/60">
+            {state.step === "servers"
+              ? "Choose a server and how to connect to it"
+              : "Link Kedi to your Plex account to find your servers"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {state.step === "starting" && (
+          <div className="flex items-center gap-2 text-sm text-white/70">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Requesting a sign-in code...
+          </div>
+        )}
+
+        {state.step === "waiting" && (
+          <div className="space-y-4 text-center">
+            <p className="text-sm text-white/70">
+              Go to{" "}
+              <a
+                href={state.pin.linkUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-[#E50914] hover:underline inline-flex items-center gap-1"
+              >
+                {state.pin.linkUrl.replace(/^https?:\/\//, "")}
+                <ExternalLink className="h-3 w-3" />
+              </a>{" "}
+              and enter this code:
+            </p>
+            <p className="text-4xl font-mono tracking-[0.3em]">{state.pin.code}</p>
+            <div className="flex items-center justify-center gap-2 text-xs text-white/50">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Waiting for you to sign in...
+            </div>
+          </div>
+        )}
+
+        {state.step === "servers" && (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {state.servers.length === 0 && (
+              <p className="text-sm text-white/60">No Plex Media Servers found on this account.</p>
+            )}
+            {state.servers.map((server) => (
+              <div key={server.clientIdentifier} className="p-4 border border-white/10 rounded-lg bg-white/5 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Server className="h-4 w-4 text-white/50" />
+                  <span className="font-medium">{server.name}</span>
+                  {!server.owned && <span className="text-xs text-white/50">Shared</span>}
+                </div>
+                {server.connections.map((connection) => (
+                  <button
+                    key={connection.uri}
+                    onClick={() => onSelectServer(server, connection)}
+                    className="w-full flex items-center gap-3 px-3 py-2 text-left bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 transition-all"
+                  >
+                    <span className="text-xs bg-[#E5A00D] text-black px-2 py-0.5 rounded shrink-0">
+                      {connectionLabel(connection)}
+                    </span>
+                    <span className="text-sm font-mono truncate">{connection.uri}</span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {state.step === "error" && (
+          <div className="space-y-4">
+            <p className="text-sm text-[#E50914]">{state.message}</p>
+            <Button
+              onClick={() => setAttempt((n) => n + 1)}
+              variant="outline"
+              className="border-white/20 bg-white/5 hover:bg-white/10"
+            >
+              Try Again
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,12 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { X, Trash2 } from "lucide-react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
-import { ContentRowConfig, ContentItem } from "../types/content";
-import { getAllContent } from "../utils/dataLoader";
+import { ContentRowConfig } from "../types/content";
+import { useContentStore } from "../utils/contentStore";
+import { loadSettings } from "../utils/settings";
 
 interface RowConfigPanelProps {
   config: ContentRowConfig;
@@ -18,12 +19,7 @@ export function RowConfigPanel({ config, onSave, onDelete, onClose }: RowConfigP
   const [title, setTitle] = useState(config.title);
   const [filters, setFilters] = useState(config.filters);
   const [limit, setLimit] = useState(config.limit || 10);
-  const [allContent, setAllContent] = useState<ContentItem[]>([]);
-
-  // Load content data on mount
-  useEffect(() => {
-    getAllContent().then(setAllContent);
-  }, []);
+  const { allContent } = useContentStore();
 
   // Extract unique values from content for dropdowns
   const uniqueLanguages = Array.from(new Set(allContent.map(item => item.language).filter(Boolean))) as string[];
@@ -31,6 +27,8 @@ export function RowConfigPanel({ config, onSave, onDelete, onClose }: RowConfigP
   const uniqueQualities = Array.from(new Set(allContent.map(item => item.quality).filter(Boolean))) as string[];
   const uniquePlatforms = Array.from(new Set(allContent.map(item => item.platform).filter(Boolean))) as string[];
   const uniqueYears = Array.from(new Set(allContent.map(item => item.year).filter(Boolean))).sort().reverse() as string[];
+  const uniqueLibraries = Array.from(new Set(allContent.map(item => item.library).filter(Boolean))).sort() as string[];
+  const playlists = loadSettings().iptvPlaylists;
 
   const handleSave = () => {
     onSave({
@@ -215,6 +213,46 @@ export function RowConfigPanel({ config, onSave, onDelete, onClose }: RowConfigP
             </div>
           </div>
 
+          {/* IPTV Playlist (Multi-select) */}
+          {playlists.length > 0 && (
+            <div>
+              <Label>IPTV Playlist</Label>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {playlists.map(playlist => (
+                  <Button
+                    key={playlist.id}
+                    variant={filters.playlist?.includes(playlist.id) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => toggleArrayValue("playlist", playlist.id)}
+                    className={filters.playlist?.includes(playlist.id) ? "bg-[#E50914] hover:bg-[#E50914]/90" : ""}
+                  >
+                    {playlist.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Library (Multi-select) */}
+          {uniqueLibraries.length > 0 && (
+            <div>
+              <Label>Library</Label>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {uniqueLibraries.map(library => (
+                  <Button
+                    key={library}
+                    variant={filters.library?.includes(library) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => toggleArrayValue("library", library)}
+                    className={filters.library?.includes(library) ? "bg-[#E50914] hover:bg-[#E50914]/90" : ""}
+                  >
+                    {library}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Year Filter */}
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -5,7 +5,9 @@ import { ContentItem, WatchHistoryItem } from "../types/content";
 import { GroupedSeries, getSortedSeasons } from "../utils/seriesGrouping";
 import { getFullSeriesInfo, getTmdbImageUrl, formatRating, formatDate, TmdbSeriesInfo, TmdbSeriesCredits } from "../utils/tmdbSeries";
 import { loadWatchHistory } from "../utils/watchHistory";
+import { getSeriesPreferences, updateSeriesPreferences } from "../utils/seriesPreferences";
 import { Button } from "./ui/button";
+import { Switch } from "./ui/switch";
 import { ContentRow } from "./ContentRow";
 import { MovieCard } from "./MovieCard";
 
@@ -40,8 +42,15 @@ export function SeriesDetailsPage({
   const [tmdbInfo, setTmdbInfo] = useState<{ details: TmdbSeriesInfo; credits: TmdbSeriesCredits } | null>(null);
   const [loading, setLoading] = useState(true);
   const [watchHistory, setWatchHistory] = useState<WatchHistoryItem[]>([]);
+  const [autoSkipIntro, setAutoSkipIntro] = useState(() => !!getSeriesPreferences(group.representative).autoSkipIntro);
 
   const sortedSeasons = getSortedSeasons(group);
+  const hasIntroMarkers = group.allItems.some((item) => item.markers?.some((marker) => marker.type === "intro"));
+
+  const handleAutoSkipIntroChange = (checked: boolean) => {
+    updateSeriesPreferences(group.representative, { autoSkipIntro: checked });
+    setAutoSkipIntro(checked);
+  };
 
   // Load watch history on mount
   useEffect(() => {
@@ -233,10 +242,19 @@ export function SeriesDetailsPage({
 
             {/* Seasons & Episodes */}
             <div className="space-y-8">
-              <h2 className="flex items-center gap-2 text-2xl md:text-3xl">
-                <ChevronRight className="h-6 w-6 text-[var(--netflix-red)]" />
-                All Seasons & Episodes
-              </h2>
+              <div className="flex items-center justify-between gap-4">
+                <h2 className="flex items-center gap-2 text-2xl md:text-3xl">
+                  <ChevronRight className="h-6 w-6 text-[var(--netflix-red)]" />
+                  All Seasons & Episodes
+                </h2>
+                {/* Only offered when the source provides intro markers */}
+                {hasIntroMarkers && (
+                  <label className="flex items-center gap-3 text-sm text-white/80">
+                    Skip intros automatically
+                    <Switch checked={autoSkipIntro} onCheckedChange={handleAutoSkipIntroChange} />
+                  </label>
+                )}
+              </div>
 
               {sortedSeasons.map(({ season, episodes }) => (
                 <ContentRow key={season} title={`Season ${season}`}>
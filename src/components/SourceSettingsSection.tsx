@@ -0,0 +1,290 @@
+import { ReactNode, useState } from "react";
+import { RefreshCw, Calendar, Play } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { SourceAdapter } from "../types/source";
+import { AppSettings, loadSettings } from "../utils/settings";
+import { isSourceConfigured } from "../utils/sourceRegistry";
+import { requestSync } from "../utils/syncManager";
+
+export interface SourceSettingsSectionProps {
+  adapter: SourceAdapter;
+  settings: AppSettings;
+  // Debounced changes are saved after 500ms of no typing
+  onSettingsChange: (settings: AppSettings, options?: { debounce?: boolean }) => void;
+  onContentReload?: () => void;
+}
+
+interface SourceSettingsSectionLayoutProps extends SourceSettingsSectionProps {
+  children?: ReactNode; // Custom settings shown after the schema fields
+}
+
+export const formatLastSync = (isoDate: string | null): string => {
+  if (!isoDate) return "Never";
+
+  const date = new Date(isoDate);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+  if (diffDays === 0) {
+    return `Today at ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  } else if (diffDays === 1) {
+    return "Yesterday";
+  } else if (diffDays < 7) {
+    return `${diffDays} days ago`;
+  } else {
+    return date.toLocaleDateString();
+  }
+};
+
+interface SyncScheduleFieldsProps {
+  idPrefix: string;
+  syncIntervalDays: number;
+  syncTime: string;
+  description: string;
+  onIntervalChange: (days: number) => void;
+  onTimeChange: (time: string) => void;
+}
+
+/**
+ * Sync interval and time inputs shown when auto sync is on
+ */
+export function SyncScheduleFields({
+  idPrefix,
+  syncIntervalDays,
+  syncTime,
+  description,
+  onIntervalChange,
+  onTimeChange
+}: SyncScheduleFieldsProps) {
+  return (
+    <div className="space-y-4 pl-4 border-l-2 border-[#E50914]/30">
+      {/* Sync Interval */}
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-sync-interval`}>Sync Every</Label>
+        <Select
+          value={syncIntervalDays.toString()}
+          onValueChange={(value) => onIntervalChange(parseInt(value))}
+        >
+          <SelectTrigger
+            id={`${idPrefix}-sync-interval`}
+            className="border-white/20 bg-transparent text-white"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="1">1 Day</SelectItem>
+            <SelectItem value="2">2 Days</SelectItem>
+            <SelectItem value="3">3 Days</SelectItem>
+            <SelectItem value="7">7 Days</SelectItem>
+            <SelectItem value="14">14 Days</SelectItem>
+            <SelectItem value="30">30 Days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Sync Time */}
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-sync-time`}>Sync Time (24h)</Label>
+        <Input
+          id={`${idPrefix}-sync-time`}
+          type="time"
+          value={syncTime}
+          onChange={(e) => onTimeChange(e.target.value)}
+          className="border-white/20 bg-transparent text-white"
+        />
+        <p className="text-xs text-white/50">{description}</p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Settings form for a source, built from its adapter's settings schema
+ */
+export function SourceSettingsSection({ adapter, settings, onSettingsChange, onContentReload, children }: SourceSettingsSectionLayoutProps) {
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const { enabledKey, fields, schedule } = adapter.settingsSchema;
+  const isConfigured = isSourceConfigured(adapter, settings);
+  const requiredLabels = fields.filter((field) => field.required !== false).map((field) => field.label);
+  const configureMessage = requiredLabels.length > 0
+    ? `Please enter ${requiredLabels.join(", ")} first`
+    : `Please finish the ${adapter.displayName} settings first`;
+
+  const handleTestConnection = async () => {
+    if (!adapter.testConnection) return;
+
+    if (!isConfigured) {
+      toast.error(configureMessage);
+      return;
+    }
+
+    setIsTesting(true);
+
+    try {
+      const message = await adapter.testConnection(settings);
+      setIsTesting(false);
+      toast.success(message);
+    } catch (error) {
+      setIsTesting(false);
+      toast.error(`${adapter.displayName} connection error: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  };
+
+  const handleManualSync = async () => {
+    if (!isConfigured) {
+      toast.error(configureMessage);
+      return;
+    }
+
+    // Save settings before syncing to ensure credentials are persisted
+    onSettingsChange(settings);
+
+    setIsSyncing(true);
+    const toastId = `sync-${adapter.id}`;
+    const result = await requestSync(adapter.id, adapter.id, (message, percent) => {
+      toast.info(percent !== undefined ? `${message} (${percent}%)` : message, { id: toastId });
+    });
+    setIsSyncing(false);
+
+    if (result.success) {
+      toast.success(`${result.message} (${result.itemCount} items)`, { id: toastId });
+      // Pick up the last sync time stored by the sync
+      if (schedule) {
+        onSettingsChange({ ...settings, [schedule.lastSyncKey]: loadSettings()[schedule.lastSyncKey] });
+      }
+    } else {
+      toast.error(result.message, { id: toastId });
+    }
+  };
+
+  return (
+    <section className="p-6 border border-white/10 rounded-lg bg-white/5 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl mb-1">{adapter.displayName}</h2>
+          <p className="text-white/60 text-sm">{adapter.description}</p>
+        </div>
+        <Switch
+          checked={settings[enabledKey]}
+          onCheckedChange={(checked) => {
+            onSettingsChange({ ...settings, [enabledKey]: checked });
+            onContentReload?.();
+          }}
+        />
+      </div>
+
+      {settings[enabledKey] && (
+        <div className="space-y-6">
+          {/* Connection Fields */}
+          {fields.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`${adapter.id}-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`${adapter.id}-${field.key}`}
+                type={field.type}
+                placeholder={field.placeholder}
+                value={settings[field.key]}
+                onChange={(e) => onSettingsChange({ ...settings, [field.key]: e.target.value }, { debounce: true })}
+                className={`border-white/20 bg-transparent text-white placeholder:text-white/40${field.monospace ? " font-mono text-sm" : ""}`}
+              />
+              {(field.description || field.helpLink) && (
+                <p className="text-xs text-white/50">
+                  {field.description}
+                  {field.helpLink && (
+                    <>
+                      {" "}
+                      <a
+                        href={field.helpLink.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-[#E50914] hover:underline"
+                      >
+                        {field.helpLink.label}
+                      </a>
+                    </>
+                  )}
+                </p>
+              )}
+            </div>
+          ))}
+
+          {children}
+
+          {/* Test Connection */}
+          {adapter.testConnection && (
+            <div className="flex justify-end py-4 border-t border-white/10">
+              <Button
+                onClick={handleTestConnection}
+                disabled={isTesting || !isConfigured}
+                variant="outline"
+                size="sm"
+                className="border-[#E50914]/50 bg-[#E50914]/10 hover:bg-[#E50914]/20 text-white"
+              >
+                <Play className={`h-3 w-3 mr-2 ${isTesting ? "animate-pulse" : ""}`} />
+                {isTesting ? "Testing..." : "Test Connection"}
+              </Button>
+            </div>
+          )}
+
+          {schedule && (
+            <>
+              {/* Auto Sync Toggle */}
+              <div className="flex items-center justify-between py-4 border-t border-white/10">
+                <div>
+                  <Label>Auto Sync</Label>
+                  <p className="text-sm text-white/60 mt-1">Automatically sync {adapter.displayName} library</p>
+                </div>
+                <Switch
+                  checked={settings[schedule.autoSyncKey]}
+                  onCheckedChange={(checked) => onSettingsChange({ ...settings, [schedule.autoSyncKey]: checked })}
+                />
+              </div>
+
+              {/* Auto Sync Settings */}
+              {settings[schedule.autoSyncKey] && (
+                <SyncScheduleFields
+                  idPrefix={adapter.id}
+                  syncIntervalDays={settings[schedule.syncIntervalDaysKey]}
+                  syncTime={settings[schedule.syncTimeKey]}
+                  description="Library sync will occur at this time each interval"
+                  onIntervalChange={(days) => onSettingsChange({ ...settings, [schedule.syncIntervalDaysKey]: days })}
+                  onTimeChange={(time) => onSettingsChange({ ...settings, [schedule.syncTimeKey]: time }, { debounce: true })}
+                />
+              )}
+
+              {/* Last Sync Info & Manual Sync */}
+              <div className="flex items-center justify-between py-4 border-t border-white/10">
+                <div className="flex items-center gap-2">
+                  <Calendar className="h-4 w-4 text-white/50" />
+                  <div>
+                    <p className="text-sm text-white/70">Last synced</p>
+                    <p className="text-sm text-white/90 mt-0.5">
+                      {formatLastSync(settings[schedule.lastSyncKey])}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  onClick={handleManualSync}
+                  disabled={isSyncing || !isConfigured}
+                  variant="outline"
+                  className="border-[#E50914]/50 bg-[#E50914]/10 hover:bg-[#E50914]/20 text-white"
+                >
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} />
+                  {isSyncing ? "Syncing..." : "Sync Now"}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect } from "react";
+import { RefreshCw, X, Trash2, CheckCircle2, XCircle, Ban } from "lucide-react";
+import { Button } from "./ui/button";
+import { SyncLogEntry, cancelSync, clearSyncLog, getSyncManagerState, subscribeSyncManager } from "../utils/syncManager";
+
+const formatDuration = (entry: SyncLogEntry): string => {
+  if (!entry.endedAt) return "";
+  const seconds = Math.round((new Date(entry.endedAt).getTime() - new Date(entry.startedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const StatusIcon = ({ status }: { status: SyncLogEntry["status"] }) => {
+  switch (status) {
+    case "success":
+      return <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />;
+    case "error":
+      return <XCircle className="h-4 w-4 text-[#E50914] shrink-0" />;
+    case "cancelled":
+      return <Ban className="h-4 w-4 text-white/50 shrink-0" />;
+    default:
+      return <RefreshCw className="h-4 w-4 text-white/70 animate-spin shrink-0" />;
+  }
+};
+
+/**
+ * Running and queued syncs with a cancel button, plus the log of past runs
+ */
+export function SyncActivitySection() {
+  const [syncState, setSyncState] = useState(getSyncManagerState);
+
+  useEffect(() => subscribeSyncManager(() => setSyncState(getSyncManagerState())), []);
+
+  const { running, progress, progressPercent, queued, log } = syncState;
+  const pastRuns = log.filter((entry) => entry.status !== "running");
+
+  return (
+    <section className="p-6 border border-white/10 rounded-lg bg-white/5 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl mb-1">Sync Activity</h2>
+          <p className="text-white/60 text-sm">
+            Scheduled syncs run in the background, one at a time, and retry when they fail
+          </p>
+        </div>
+        {pastRuns.length > 0 && (
+          <Button
+            onClick={clearSyncLog}
+            variant="ghost"
+            size="sm"
+            className="hover:bg-white/10"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear Log
+          </Button>
+        )}
+      </div>
+
+      {/* Running Sync */}
+      {running ? (
+        <div className="flex items-center justify-between gap-4 p-4 border border-[#E50914]/30 rounded-lg bg-[#E50914]/10">
+          <div className="flex items-center gap-3 min-w-0">
+            <RefreshCw className="h-4 w-4 animate-spin shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm text-white/90">Syncing {running.name}</p>
+              {progress && <p className="text-xs text-white/60 truncate">{progress}</p>}
+              {progressPercent !== null && (
+                <div className="h-1 w-48 mt-1.5 rounded-full bg-white/10 overflow-hidden">
+                  <div className="h-full bg-[#E50914] transition-all" style={{ width: `${progressPercent}%` }} />
+                </div>
+              )}
+              {queued.length > 0 && (
+                <p className="text-xs text-white/50">
+                  Up next: {queued.map((job) => job.name).join(", ")}
+                </p>
+              )}
+            </div>
+          </div>
+          <Button
+            onClick={() => cancelSync()}
+            variant="outline"
+            size="sm"
+            className="border-white/20 bg-white/5 hover:bg-white/10 shrink-0"
+          >
+            <X className="h-3 w-3 mr-2" />
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-white/60">No sync running.</p>
+      )}
+
+      {/* Sync Log */}
+      {pastRuns.length > 0 && (
+        <div className="space-y-2 pt-6 border-t border-white/10">
+          {pastRuns.map((entry) => (
+            <div key={entry.id} className="flex items-start gap-3 text-sm">
+              <StatusIcon status={entry.status} />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="text-white/90 truncate">
+                    {entry.name}
+                    <span className="text-white/50"> · {entry.trigger === "auto" ? "Scheduled" : "Manual"}</span>
+                  </span>
+                  <span className="text-xs text-white/50 shrink-0">
+                    {new Date(entry.startedAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-xs text-white/50">
+                  {entry.status === "success" && entry.itemCount !== null && `${entry.itemCount.toLocaleString()} items · `}
+                  {entry.error && `${entry.error} · `}
+                  {entry.attempts > 1 && `${entry.attempts} attempts · `}
+                  {formatDuration(entry)}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -2,6 +2,7 @@ import { Radio as RadioIcon, Play, Plus, Check } from "lucide-react";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { Button } from "./ui/button";
 import { ContentItem } from "../types/content";
+import { NowNextInfo } from "./NowNextInfo";
 
 interface TVChannelCardProps {
   item: ContentItem;
@@ -78,6 +79,7 @@ export function TVChannelCard({ item, onPlay, onHover, onToggleMyList, isInMyLis
             <span className="rounded bg-[#E5A00D]/80 px-1.5 text-[10px] font-medium text-black">Plex</span>
           )}
         </div>
+        {item.type === "TV" && <NowNextInfo item={item} compact />}
       </div>
     </div>
   );
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { Play } from "lucide-react";
+import { Button } from "./ui/button";
+import { ContentItem } from "../types/content";
+
+interface UpNextCardProps {
+  item: ContentItem; // The next episode
+  countdown: number | null; // Seconds before it plays by itself, null when autoplay is off
+  isRunning: boolean; // The countdown waits while playback is paused
+  askStillWatching: boolean; // Ask before playing instead of counting down
+  onPlay: () => void; // Played by the viewer
+  onAutoplay: () => void; // Played when the countdown ran out
+  onDismiss: () => void;
+  onStop: () => void;
+}
+
+/**
+ * Card shown over the end of an episode with the next one in the show
+ * Counts down to autoplay, or asks whether anyone is still watching
+ */
+export function UpNextCard({
+  item,
+  countdown,
+  isRunning,
+  askStillWatching,
+  onPlay,
+  onAutoplay,
+  onDismiss,
+  onStop
+}: UpNextCardProps) {
+  const [remaining, setRemaining] = useState(countdown);
+
+  useEffect(() => {
+    if (remaining === null || askStillWatching || !isRunning) return;
+    if (remaining <= 0) {
+      onAutoplay();
+      return;
+    }
+
+    const timeout = setTimeout(() => setRemaining(remaining - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [remaining, askStillWatching, isRunning]);
+
+  const episodeInfo = item.season && item.episode ? `S${item.season}:E${item.episode}` : null;
+
+  return (
+    <div className="absolute bottom-36 right-8 z-10 w-80 rounded-lg border border-white/10 bg-black/85 p-4 text-white backdrop-blur-sm">
+      {askStillWatching ? (
+        <>
+          <p className="text-lg">Are you still watching?</p>
+          <p className="mt-1 text-sm text-white/60">
+            Up next: {item.name}{episodeInfo && ` · ${episodeInfo}`}
+          </p>
+          <div className="mt-4 flex gap-2">
+            <Button onClick={onPlay} className="flex-1 bg-[#E50914] text-white hover:bg-[#E50914]/90">
+              Continue watching
+            </Button>
+            <Button variant="ghost" onClick={onStop} className="text-white hover:bg-white/10 hover:text-white">
+              Stop
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-xs uppercase tracking-wide text-white/50">Up next</p>
+          <p className="mt-1 truncate">{item.name}</p>
+          {episodeInfo && <p className="text-sm text-white/60">{episodeInfo}</p>}
+          <div className="mt-4 flex gap-2">
+            <Button onClick={onPlay} className="flex-1 bg-[#E50914] text-white hover:bg-[#E50914]/90">
+              <Play className="h-4 w-4 fill-current" />
+              {remaining !== null ? `Play in ${remaining}s` : "Play now"}
+            </Button>
+            <Button variant="ghost" onClick={onDismiss} className="text-white hover:bg-white/10 hover:text-white">
+              Cancel
+            </Button>
+          </div>
+          {/* Countdown progress */}
+          {remaining !== null && countdown && (
+            <div className="mt-3 h-1 overflow-hidden rounded bg-white/20">
+              <div
+                className="h-full bg-[#E50914] transition-all duration-1000 ease-linear"
+                style={{ width: `${((countdown - remaining) / countdown) * 100}%` }}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
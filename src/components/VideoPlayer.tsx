@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { motion, AnimatePresence } from "motion/react";
 import { 
   Play, 
@@ -10,39 +10,77 @@ import {
   SkipBack,
   SkipForward,
   ArrowLeft,
-  Settings
+  Settings,
+  ChevronsRight,
+  Radio
 } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "./ui/button";
 import { Slider } from "./ui/slider";
-import { ContentItem } from "../types/content";
+import { ContentItem, MediaMarker } from "../types/content";
 import { saveWatchProgress, getLastWatchedTime } from "../utils/watchHistory";
-
-// Type definitions for Electron mpv API
-declare global {
-  interface Window {
-    electron?: {
-      isElectron: boolean;
-      platform: string;
-      mpv: {
-        init(): Promise<{ success: boolean; error?: string }>;
-        play(url: string): Promise<{ success: boolean; error?: string }>;
-        pause(v: boolean): Promise<{ success: boolean; error?: string }>;
-        seek(s: number, mode?: 'relative' | 'absolute'): Promise<{ success: boolean; error?: string }>;
-        volume(v: number): Promise<{ success: boolean; error?: string }>;
-        stop(): Promise<{ success: boolean; error?: string }>;
-        kill(): Promise<{ success: boolean; error?: string }>;
-        onExit(callback: () => void): () => void;
-      };
-    };
-  }
-}
+import { reportPlexProgress, resolvePlexPlayback, stopPlexTranscode, PLEX_TIMELINE_INTERVAL } from "../utils/plexPlayback";
+import { getSeriesPreferences } from "../utils/seriesPreferences";
+import { createHlsEngine } from "../utils/hlsPlayback";
+import { createMpegTsEngine } from "../utils/mpegtsPlayback";
+import { createDashEngine } from "../utils/dashPlayback";
+import { PlaybackPlan, resolvePlaybackPlan } from "../utils/playbackResolver";
+import { AUTO_QUALITY, MediaTrack, PlaybackEngine, QualityLevel } from "../types/playback";
+import { MpvTrack } from "../types/electron";
+import { NativeTrackController, watchNativeTracks } from "../utils/nativeTracks";
+import {
+  getTrackLabel,
+  getTrackLanguage,
+  getTrackPreferences,
+  pickAudioTrack,
+  pickTextTrack,
+  saveTrackOverride,
+} from "../utils/trackSelection";
+import {
+  EXTERNAL_SUBTITLE_TRACK_PREFIX,
+  LoadedSubtitle,
+  SubtitleCue,
+  fetchSubtitles,
+  getSubtitleCss,
+  getSubtitleLabel,
+  getSubtitleOffset,
+  readSubtitleFile,
+  saveSubtitleOffset,
+  toWebVtt,
+} from "../utils/subtitles";
+import { loadSettings } from "../utils/settings";
+import { NowNextInfo } from "./NowNextInfo";
+import { PlayerSettingsMenu } from "./PlayerSettingsMenu";
+import { UpNextCard } from "./UpNextCard";
 
 interface VideoPlayerProps {
   item: ContentItem | null;
+  nextItem?: ContentItem | null; // Next episode in the show, offered near the end
+  onPlayNext?: (item: ContentItem) => void;
   onClose: () => void;
 }
 
-export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
+const NO_TRACKS = { tracks: [] as MediaTrack[], selected: null };
+
+const UP_NEXT_COUNTDOWN = 10; // Seconds; also how long before the end Up Next shows without a credits marker
+
+// Menu ids of loaded subtitles start here, clear of the ids engines give their own tracks
+const EXTERNAL_SUBTITLE_ID_OFFSET = 1000;
+
+// mpv track list entries of one type, in the shape the settings menu shows
+const toMpvTracks = (trackList: MpvTrack[], type: MpvTrack["type"]) => {
+  const tracks = trackList.filter((track) => track.type === type);
+  return {
+    tracks: tracks.map((track, index): MediaTrack => ({
+      id: track.id,
+      language: track.lang || null,
+      label: getTrackLabel(track.lang, track.title, index),
+    })),
+    selected: tracks.find((track) => track.selected)?.id ?? null,
+  };
+};
+
+export function VideoPlayer({ item, nextItem, onPlayNext, onClose }: VideoPlayerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [volume, setVolume] = useState(100);
@@ -54,32 +92,104 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
   const [hasError, setHasError] = useState(false);
   const [useMpv, setUseMpv] = useState(false);
   const [mpvError, setMpvError] = useState<string | null>(null);
+  const [qualityLevels, setQualityLevels] = useState<QualityLevel[]>([]);
+  const [selectedQuality, setSelectedQuality] = useState(AUTO_QUALITY);
+  const [playingQuality, setPlayingQuality] = useState<number | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [audioTracks, setAudioTracks] = useState<{ tracks: MediaTrack[]; selected: number | null }>(NO_TRACKS);
+  const [textTracks, setTextTracks] = useState<{ tracks: MediaTrack[]; selected: number | null }>(NO_TRACKS);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [resolvedPlan, setResolvedPlan] = useState<PlaybackPlan | null>(null);
+  const [externalSubtitles, setExternalSubtitles] = useState<LoadedSubtitle[]>([]);
+  const [selectedSubtitle, setSelectedSubtitle] = useState<LoadedSubtitle | null>(null);
+  const [subtitleOffset, setSubtitleOffset] = useState(0);
+  const [hasEnded, setHasEnded] = useState(false);
+  const [isUpNextDismissed, setIsUpNextDismissed] = useState(false);
+  const [autoplayCount, setAutoplayCount] = useState(0); // Episodes played in a row by autoplay
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const controlsTimeoutRef = useRef<NodeJS.Timeout>();
   const mpvInitializedRef = useRef(false);
+  const mpvPositionRef = useRef(0); // Last time-pos reported by mpv
+  const mpvKilledRef = useRef(false); // Set while Kedi quits mpv itself, so the exit doesn't close the player
+  const useMpvRef = useRef(useMpv);
+  useMpvRef.current = useMpv;
+  const durationRef = useRef(duration);
+  durationRef.current = duration;
   const errorCountRef = useRef(0);
+  const skippedMarkerRef = useRef<MediaMarker | null>(null);
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  const nativeTracksRef = useRef<NativeTrackController | null>(null);
+  const audioPickedRef = useRef(false); // Default audio track picked for this item
+  const pickedTextTracksRef = useRef<string | null>(null); // Subtitle list the default was last picked from
+  const textChosenRef = useRef(false); // Subtitles picked by hand, which later tracks don't override
+
+  const handleAudioTracks = (tracks: MediaTrack[], selected: number | null) => setAudioTracks({ tracks, selected });
+  const handleTextTracks = (tracks: MediaTrack[], selected: number | null) => setTextTracks({ tracks, selected });
+
+  // Plex items may be transcoded by the server; other items play their URL as-is
+  const playbackSource = useMemo(() => (item ? resolvePlexPlayback(item) : null), [item]);
+
+  // Engine for the current source, null while its stream type and codecs are probed
+  const playbackPlan = playbackSource && resolvedPlan?.url === playbackSource.url ? resolvedPlan : null;
+  const engineKind = playbackPlan?.engine ?? null;
+
+  // Subtitle and autoplay settings are read when an item opens, so changes in Settings apply to the next one
+  const settings = useMemo(() => loadSettings(), [item]);
+
+  // Loaded subtitles follow the media's own tracks in the menu; mpv can't show them
+  const menuTextTracks = useMemo(() => {
+    if (useMpv) return textTracks;
+    const selectedIndex = selectedSubtitle ? externalSubtitles.indexOf(selectedSubtitle) : -1;
+    return {
+      tracks: [
+        ...textTracks.tracks,
+        ...externalSubtitles.map((subtitle, index): MediaTrack => ({
+          id: EXTERNAL_SUBTITLE_ID_OFFSET + index,
+          language: subtitle.language,
+          label: subtitle.label,
+        })),
+      ],
+      selected: selectedIndex >= 0 ? EXTERNAL_SUBTITLE_ID_OFFSET + selectedIndex : textTracks.selected,
+    };
+  }, [useMpv, textTracks, externalSubtitles, selectedSubtitle]);
+
+  // <track> elements only play WebVTT, so loaded subtitles are rewritten with the offset applied
+  const externalSubtitleUrls = useMemo(
+    () => externalSubtitles.map((subtitle) => URL.createObjectURL(
+      new Blob([toWebVtt(subtitle.cues, subtitleOffset, settings.subtitlePosition)], { type: "text/vtt" })
+    )),
+    [externalSubtitles, subtitleOffset, settings]
+  );
+
+  // Intro or credits segment under the playhead
+  const activeMarker = item?.markers?.find((marker) => currentTime >= marker.start && currentTime < marker.end) || null;
+
+  // Up Next shows from the credits, or just before the end when the item has no credits marker
+  const creditsMarker = item?.markers?.find((marker) => marker.type === "credits");
+  const upNextStart = creditsMarker ? creditsMarker.start : duration - UP_NEXT_COUNTDOWN;
+  const showUpNext = !!nextItem && !!onPlayNext && !isLive && duration > 0 && !isUpNextDismissed &&
+    (hasEnded || currentTime >= upNextStart);
+  const askStillWatching = settings.autoplayNextEpisode && settings.stillWatchingEpisodes > 0 &&
+    autoplayCount >= settings.stillWatchingEpisodes;
 
   useEffect(() => {
     if (item) {
       setIsLoading(true);
       setHasError(false);
       errorCountRef.current = 0;
+      audioPickedRef.current = false;
+      pickedTextTracksRef.current = null;
+      textChosenRef.current = false;
+      setHasEnded(false);
+      setIsUpNextDismissed(false);
 
-      // Check if this is an MKV file and mpv is available
-      const isMkvFile = item.url.toLowerCase().endsWith('.mkv');
-      const hasMpv = window.electron?.mpv;
+      // The player stays open when moving on to the next episode
+      setCurrentTime(0);
+      setDuration(0);
 
-      // For MKV files in Electron, prefer mpv for better codec support
-      if (isMkvFile && hasMpv) {
-        console.log('[VideoPlayer] MKV file detected, using mpv for better compatibility');
-        setUseMpv(true); // Set this before calling fallbackToMpv
-        fallbackToMpv();
-        return;
-      }
-
-      // Only set up video element if not using mpv
+      // mpv is picked once the playback plan is resolved
       setUseMpv(false);
 
       if (videoRef.current) {
@@ -87,9 +197,6 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
         videoRef.current.muted = false;
         videoRef.current.volume = volume / 100;
 
-        // Auto-play when video loads
-        videoRef.current.load();
-
         // Resume from last watched position if available
         const lastTime = getLastWatchedTime(item);
         if (lastTime && lastTime > 0) {
@@ -98,27 +205,229 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
       }
     }
 
-    // Cleanup mpv on unmount or item change
+    // mpv stays open for the next item, which is loaded into it if that plays in mpv too
     return () => {
       if (window.electron?.mpv && mpvInitializedRef.current) {
-        window.electron.mpv.kill().catch(console.error);
-        mpvInitializedRef.current = false;
+        window.electron.mpv.pause(true).catch(console.error);
       }
     };
   }, [item]);
 
+  // Quit mpv when the player closes
+  useEffect(() => () => killMpv(), []);
+
+  // Pick the engine from the stream type and codecs, probing the server where needed
+  useEffect(() => {
+    if (!item || !playbackSource) return;
+
+    const controller = new AbortController();
+    resolvePlaybackPlan(item, playbackSource, controller.signal).then((plan) => {
+      if (controller.signal.aborted) return;
+
+      console.log(`[VideoPlayer] Playing ${plan.streamType} with ${plan.engine}${plan.reason ? ` (${plan.reason})` : ""}`);
+      setResolvedPlan(plan);
+      if (plan.engine === "mpv") {
+        setUseMpv(true); // Set this before calling fallbackToMpv
+        fallbackToMpv();
+      } else {
+        killMpv(); // Left open by the previous item
+      }
+    });
+    return () => controller.abort();
+  }, [item, playbackSource]);
+
+  // Auto-play when video loads; engines load the stream themselves
+  useEffect(() => {
+    if (engineKind === "native" && videoRef.current) {
+      videoRef.current.load();
+    }
+  }, [engineKind, playbackSource]);
+
+  // Attach the MSE engine for HLS, DASH and MPEG-TS streams
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!item || !playbackSource || useMpv || !video) return;
+    if (engineKind !== "hls" && engineKind !== "dash" && engineKind !== "mpegts") return;
+
+    const callbacks = {
+      onQualityLevels: setQualityLevels,
+      onQualitySwitched: setPlayingQuality,
+      onLiveChange: setIsLive,
+      onAudioTracks: handleAudioTracks,
+      onTextTracks: handleTextTracks,
+      onFatalError: () => {
+        engineRef.current = null;
+        handleError();
+      },
+    };
+    const engine = engineKind === "hls"
+      ? createHlsEngine(video, playbackSource.url, callbacks)
+      : engineKind === "dash"
+        ? createDashEngine(video, playbackSource.url, item.drm, callbacks)
+        : createMpegTsEngine(video, playbackSource.url, item.type === "TV" || item.type === "Radio", callbacks);
+    engineRef.current = engine;
+
+    return () => {
+      engine.destroy();
+      engineRef.current = null;
+      setQualityLevels([]);
+      setSelectedQuality(AUTO_QUALITY);
+      setPlayingQuality(null);
+      setIsLive(false);
+      setAudioTracks(NO_TRACKS);
+      setTextTracks(NO_TRACKS);
+    };
+  }, [item, playbackSource, engineKind, useMpv]);
+
+  // List the tracks of media the video element plays by itself
+  useEffect(() => {
+    const video = videoRef.current;
+    if (engineKind !== "native" || useMpv || !video) return;
+
+    const controller = watchNativeTracks(video, { onAudioTracks: handleAudioTracks, onTextTracks: handleTextTracks });
+    nativeTracksRef.current = controller;
+
+    return () => {
+      controller.destroy();
+      nativeTracksRef.current = null;
+      setAudioTracks(NO_TRACKS);
+      setTextTracks(NO_TRACKS);
+    };
+  }, [engineKind, useMpv, playbackSource]);
+
+  // Pick the default audio track from the language preferences once tracks are listed
+  useEffect(() => {
+    if (!item || audioTracks.tracks.length === 0 || audioPickedRef.current) return;
+    audioPickedRef.current = true;
+
+    const id = pickAudioTrack(audioTracks.tracks, getTrackPreferences(item));
+    if (id !== null && id !== audioTracks.selected) {
+      applyAudioTrack(id);
+    }
+  }, [item, audioTracks]);
+
+  // Subtitles depend on the audio language, so they are picked after the audio track
+  useEffect(() => {
+    if (!item || menuTextTracks.tracks.length === 0 || textChosenRef.current) return;
+
+    // Picked again when tracks are added later, e.g. Plex sidecar files after the stream's own
+    const trackList = menuTextTracks.tracks.map((track) => `${track.id}:${track.language}`).join(",");
+    if (trackList === pickedTextTracksRef.current) return;
+    pickedTextTracksRef.current = trackList;
+
+    const audioTrack = audioTracks.tracks.find((track) => track.id === audioTracks.selected);
+    const audioLanguage = audioTrack ? getTrackLanguage(audioTrack) : item.audioLanguages?.[0] ?? item.language;
+    const id = pickTextTrack(menuTextTracks.tracks, getTrackPreferences(item), audioLanguage);
+    if (id !== menuTextTracks.selected) {
+      applyTextTrack(id);
+    }
+  }, [item, menuTextTracks]);
+
+  // Fetch the item's sidecar subtitles (Plex) and restore its timing offset
+  useEffect(() => {
+    setExternalSubtitles([]);
+    setSelectedSubtitle(null);
+    if (!item) return;
+
+    setSubtitleOffset(getSubtitleOffset(item));
+    const controller = new AbortController();
+    item.subtitles?.forEach((source) => {
+      fetchSubtitles(source.url, controller.signal)
+        .then((cues) => {
+          const subtitle: LoadedSubtitle = { label: source.label, language: source.language, cues };
+          setExternalSubtitles((current) => [...current, subtitle]);
+        })
+        .catch((error) => {
+          if (!controller.signal.aborted) {
+            console.error('[VideoPlayer] Failed to load subtitles:', source.url, error);
+          }
+        });
+    });
+
+    return () => controller.abort();
+  }, [item]);
+
+  // Show the selected loaded subtitle; track elements are recreated when their URL changes
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const selectedId = selectedSubtitle
+      ? `${EXTERNAL_SUBTITLE_TRACK_PREFIX}${externalSubtitles.indexOf(selectedSubtitle)}`
+      : null;
+    for (let i = 0; i < video.textTracks.length; i++) {
+      const track = video.textTracks[i];
+      if (track.id.startsWith(EXTERNAL_SUBTITLE_TRACK_PREFIX)) {
+        track.mode = track.id === selectedId ? "showing" : "disabled";
+      }
+    }
+  }, [selectedSubtitle, externalSubtitles, externalSubtitleUrls, useMpv]);
+
+  useEffect(() => () => externalSubtitleUrls.forEach((url) => URL.revokeObjectURL(url)), [externalSubtitleUrls]);
+
   // Listen for mpv exit events
   useEffect(() => {
     if (!window.electron?.mpv) return;
 
     const cleanup = window.electron.mpv.onExit(() => {
+      mpvInitializedRef.current = false;
+      if (mpvKilledRef.current) {
+        mpvKilledRef.current = false;
+        return;
+      }
+
+      // mpv quits at the end of the file; the next episode is offered rather than closing
+      const hasFinished = durationRef.current > 0 && durationRef.current - mpvPositionRef.current < UP_NEXT_COUNTDOWN;
+      if (hasFinished && nextItem && onPlayNext) {
+        console.log('[VideoPlayer] mpv finished, showing the next episode');
+        setIsPlaying(false);
+        setHasEnded(true);
+        return;
+      }
+
       console.log('[VideoPlayer] mpv exited, closing video player');
-      // Close the video player when mpv exits
       onClose();
     });
 
     return cleanup;
-  }, [onClose]);
+  }, [onClose, nextItem, onPlayNext]);
+
+  // Mirror mpv's position, duration, pause state and tracks in Kedi's controls
+  useEffect(() => {
+    const mpv = window.electron?.mpv;
+    if (!useMpv || !mpv) return;
+
+    const unsubscribers = [
+      mpv.observe("time-pos", (position) => {
+        if (position === null) return;
+        mpvPositionRef.current = position;
+        setCurrentTime(position);
+      }),
+      mpv.observe("duration", (value) => setDuration(value || 0)),
+      mpv.observe("pause", (paused) => setIsPlaying(!paused)),
+      mpv.observe("track-list", (trackList) => {
+        setAudioTracks(toMpvTracks(trackList, "audio"));
+        setTextTracks(toMpvTracks(trackList, "sub"));
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      setAudioTracks(NO_TRACKS);
+      setTextTracks(NO_TRACKS);
+    };
+  }, [useMpv]);
+
+  // Position of whichever player is active, in seconds
+  const getPlaybackPosition = () =>
+    (useMpvRef.current ? mpvPositionRef.current : videoRef.current?.currentTime ?? null);
+
+  const killMpv = () => {
+    if (!window.electron?.mpv || !mpvInitializedRef.current) return;
+    mpvKilledRef.current = true;
+    mpvInitializedRef.current = false;
+    window.electron.mpv.kill().catch(console.error);
+  };
 
   // Initialize mpv if in Electron and needed
   const initMpv = async () => {
@@ -154,8 +463,13 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
     }
 
     try {
-      const result = await window.electron.mpv.play(item.url);
+      // Resume from last watched position, like the video element does
+      const lastTime = getLastWatchedTime(item);
+      mpvPositionRef.current = lastTime || 0;
+      const result = await window.electron.mpv.play(item.url, lastTime ? { start: lastTime } : undefined);
       if (result.success) {
+        // mpv may still be paused from the previous item
+        await window.electron.mpv.pause(false);
         setUseMpv(true);
         setIsPlaying(true);
         setIsLoading(false);
@@ -229,7 +543,10 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
   };
 
   const toggleMute = () => {
-    if (videoRef.current) {
+    if (useMpv && window.electron?.mpv) {
+      window.electron.mpv.volume(isMuted ? volume : 0).catch((error) => console.error('mpv volume error:', error));
+      setIsMuted(!isMuted);
+    } else if (videoRef.current) {
       videoRef.current.muted = !isMuted;
       setIsMuted(!isMuted);
     }
@@ -264,22 +581,81 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
   // Save watch progress periodically and when closing
   useEffect(() => {
     const saveInterval = setInterval(() => {
-      if (item && videoRef.current && duration > 0) {
-        saveWatchProgress(item, videoRef.current.currentTime, duration);
+      const position = getPlaybackPosition();
+      if (item && position !== null && duration > 0) {
+        saveWatchProgress(item, position, duration);
       }
     }, 5000); // Save every 5 seconds
 
     return () => clearInterval(saveInterval);
-  }, [item, duration]);
+  }, [item, duration, useMpv]);
 
   // Save progress when component unmounts or user closes
   useEffect(() => {
     return () => {
-      if (item && videoRef.current && duration > 0) {
-        saveWatchProgress(item, videoRef.current.currentTime, duration);
+      const position = getPlaybackPosition();
+      if (item && position !== null && duration > 0) {
+        saveWatchProgress(item, position, duration);
       }
     };
-  }, [item, duration]);
+  }, [item, duration, useMpv]);
+
+  // Report playback to Plex, so its resume position and watched flag follow Kedi
+  useEffect(() => {
+    if (!item || item.source !== "Plex" || duration <= 0) return;
+
+    const report = () => {
+      const position = getPlaybackPosition();
+      if (position !== null) {
+        reportPlexProgress(item, isPlaying ? "playing" : "paused", position, duration);
+      }
+    };
+
+    report();
+    const reportInterval = setInterval(report, PLEX_TIMELINE_INTERVAL);
+    return () => clearInterval(reportInterval);
+  }, [item, duration, isPlaying, useMpv]);
+
+  // End the Plex transcode session when the player closes or switches items
+  useEffect(() => {
+    return () => {
+      if (item && playbackSource?.session) {
+        stopPlexTranscode(item, playbackSource.session);
+      }
+    };
+  }, [item, playbackSource]);
+
+  // Tell Plex playback stopped when the player closes or switches items
+  // Duration and player are read through refs, as the cleanup must not run when they change
+  useEffect(() => {
+    return () => {
+      const position = getPlaybackPosition();
+      if (item && position !== null && durationRef.current > 0) {
+        reportPlexProgress(item, "stopped", position, durationRef.current);
+      }
+    };
+  }, [item, playbackSource?.session]);
+
+  const skipMarker = (marker: MediaMarker) => {
+    skippedMarkerRef.current = marker;
+    if (useMpv && window.electron?.mpv) {
+      window.electron.mpv.seek(marker.end, 'absolute').catch((error) => console.error('mpv seek error:', error));
+      setCurrentTime(marker.end);
+    } else if (videoRef.current) {
+      videoRef.current.currentTime = marker.end;
+      setCurrentTime(marker.end);
+    }
+  };
+
+  // Skip intros automatically for series that have it turned on, once per intro
+  useEffect(() => {
+    if (!item || !activeMarker || activeMarker.type !== "intro") return;
+    if (skippedMarkerRef.current === activeMarker) return;
+
+    if (item.type === "Series" && getSeriesPreferences(item).autoSkipIntro) {
+      skipMarker(activeMarker);
+    }
+  }, [item, activeMarker, useMpv]);
 
   const handleLoadedMetadata = () => {
     if (videoRef.current && item) {
@@ -357,6 +733,9 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
   };
 
   const handleError = () => {
+    // The engine recovers from its own errors and reports the ones it can't
+    if (engineRef.current) return;
+
     errorCountRef.current += 1;
 
     // Try mpv fallback if available and this is the first error
@@ -379,9 +758,98 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
     }
   };
 
+  const handleSelectQuality = (index: number) => {
+    engineRef.current?.setQuality(index);
+    setSelectedQuality(index);
+    setIsSettingsOpen(false);
+  };
+
+  // Tracks are switched in mpv, the engine, or the video element, whichever is playing
+  const applyAudioTrack = (id: number) => {
+    if (useMpv) {
+      window.electron?.mpv.setTrack("audio", id).catch((error) => console.error('mpv track error:', error));
+    } else {
+      (engineRef.current || nativeTracksRef.current)?.setAudioTrack?.(id);
+    }
+    setAudioTracks((current) => ({ ...current, selected: id }));
+  };
+
+  // Picking a loaded subtitle turns the media's own subtitles off
+  const applyTextTrack = (id: number | null) => {
+    const subtitle = id !== null && id >= EXTERNAL_SUBTITLE_ID_OFFSET
+      ? externalSubtitles[id - EXTERNAL_SUBTITLE_ID_OFFSET] || null
+      : null;
+    const trackId = subtitle ? null : id;
+
+    if (useMpv) {
+      window.electron?.mpv.setTrack("sub", trackId).catch((error) => console.error('mpv track error:', error));
+    } else {
+      (engineRef.current || nativeTracksRef.current)?.setTextTrack?.(trackId);
+    }
+    setTextTracks((current) => ({ ...current, selected: trackId }));
+    setSelectedSubtitle(subtitle);
+  };
+
+  // Picking a track in the menu also sets it for the rest of the series
+  const handleSelectAudioTrack = (id: number) => {
+    applyAudioTrack(id);
+    if (item) {
+      saveTrackOverride(item, "audio", audioTracks.tracks.find((track) => track.id === id) || null);
+    }
+    setIsSettingsOpen(false);
+  };
+
+  const handleSelectTextTrack = (id: number | null) => {
+    textChosenRef.current = true;
+    applyTextTrack(id);
+    if (item) {
+      saveTrackOverride(item, "text", menuTextTracks.tracks.find((track) => track.id === id) || null);
+    }
+    setIsSettingsOpen(false);
+  };
+
+  // Subtitles loaded from the menu are shown straight away
+  const loadSubtitle = async (label: string, load: () => Promise<SubtitleCue[]>) => {
+    setIsSettingsOpen(false);
+    try {
+      const cues = await load();
+      if (cues.length === 0) {
+        toast.error("No subtitles found", { description: label });
+        return;
+      }
+
+      const subtitle: LoadedSubtitle = { label, language: null, cues };
+      textChosenRef.current = true;
+      setExternalSubtitles((current) => [...current, subtitle]);
+      (engineRef.current || nativeTracksRef.current)?.setTextTrack?.(null);
+      setTextTracks((current) => ({ ...current, selected: null }));
+      setSelectedSubtitle(subtitle);
+    } catch (error) {
+      console.error('[VideoPlayer] Failed to load subtitles:', error);
+      toast.error("Couldn't load subtitles", {
+        description: error instanceof Error ? error.message : label,
+      });
+    }
+  };
+
+  const handleLoadSubtitleFile = (file: File) => loadSubtitle(file.name, () => readSubtitleFile(file));
+
+  const handleLoadSubtitleUrl = (url: string) => loadSubtitle(getSubtitleLabel(url), () => fetchSubtitles(url));
+
+  const handleSubtitleOffsetChange = (offset: number) => {
+    const rounded = Math.round(offset * 10) / 10; // Keeps 0.5s steps free of float drift
+    setSubtitleOffset(rounded);
+    if (item) {
+      saveSubtitleOffset(item, rounded);
+    }
+  };
+
   const handleProgressChange = (value: number[]) => {
     const newTime = value[0];
-    if (videoRef.current) {
+    if (useMpv && window.electron?.mpv) {
+      window.electron.mpv.seek(newTime, 'absolute').catch((error) => console.error('mpv seek error:', error));
+      setCurrentTime(newTime);
+    } else if (videoRef.current) {
       videoRef.current.currentTime = newTime;
       setCurrentTime(newTime);
     }
@@ -438,6 +906,13 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
+  // Episodes the viewer picks reset the "still watching?" count
+  const playNextItem = (automatic: boolean) => {
+    if (!nextItem || !onPlayNext) return;
+    setAutoplayCount((count) => (automatic ? count + 1 : 0));
+    onPlayNext(nextItem);
+  };
+
   const handleMouseMove = () => {
     setShowControls(true);
     if (controlsTimeoutRef.current) {
@@ -456,6 +931,9 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
 
   if (!item) return null;
 
+  // Re-evaluated on every time update
+  const isBehindLiveEdge = isLive && !!engineRef.current?.isBehindLiveEdge();
+
   const episodeInfo = item.season && item.episode 
     ? `S${item.season}:E${item.episode}` 
     : null;
@@ -472,6 +950,8 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
         onMouseMove={handleMouseMove}
         onMouseLeave={() => isPlaying && setShowControls(false)}
       >
+        <style>{getSubtitleCss(settings)}</style>
+
         {/* Video Element - only render when not using mpv */}
         {!useMpv && (
           <video
@@ -481,18 +961,36 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
             onLoadedMetadata={handleLoadedMetadata}
             onCanPlay={handleCanPlay}
             onError={handleError}
+            onEnded={() => setHasEnded(true)}
             onClick={handleVideoClick}
             playsInline
             {...(item.source === 'Plex' && { crossOrigin: 'anonymous' })}
             preload="metadata"
           >
-            {/* Use source element with explicit MIME type for better compatibility */}
-            <source
-              src={item.url}
-              type={item.url.toLowerCase().endsWith('.mkv') ? 'video/x-matroska' : 'video/mp4'}
-            />
-            {/* Fallback: try without MIME type specification */}
-            <source src={item.url} />
+            {/* Engines attach the stream themselves; otherwise use source elements */}
+            {engineKind === "native" && (
+              <>
+                {/* Use source element with explicit MIME type for better compatibility */}
+                <source
+                  src={playbackSource?.url || item.url}
+                  type={playbackPlan?.streamType === "hls"
+                    ? 'application/vnd.apple.mpegurl'
+                    : item.url.toLowerCase().endsWith('.mkv') ? 'video/x-matroska' : 'video/mp4'}
+                />
+                {/* Fallback: try without MIME type specification */}
+                <source src={playbackSource?.url || item.url} />
+              </>
+            )}
+            {externalSubtitles.map((subtitle, index) => (
+              <track
+                key={externalSubtitleUrls[index]}
+                id={`${EXTERNAL_SUBTITLE_TRACK_PREFIX}${index}`}
+                kind="subtitles"
+                src={externalSubtitleUrls[index]}
+                srcLang={subtitle.language || undefined}
+                label={subtitle.label}
+              />
+            ))}
           </video>
         )}
 
@@ -506,7 +1004,8 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
                 </svg>
               </div>
               <p className="text-white/70">Playing in mpv</p>
-              <p className="text-white/50 text-sm">Use mpv window for playback controls</p>
+              {playbackPlan?.reason && <p className="text-white/50 text-sm">{playbackPlan.reason}</p>}
+              <p className="text-white/50 text-sm">Use the controls below or the mpv window</p>
             </div>
           </div>
         )}
@@ -524,7 +1023,9 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
             <div className="text-center space-y-4">
               <div className="h-16 w-16 mx-auto animate-spin rounded-full border-4 border-white/20 border-t-[var(--netflix-red)]" />
               <p className="text-white/70">Launching mpv player...</p>
-              <p className="text-white/50 text-sm">MKV file detected - using mpv for better codec support</p>
+              <p className="text-white/50 text-sm">
+                {playbackPlan?.reason ? `${playbackPlan.reason} - using mpv instead` : "Using mpv for better codec support"}
+              </p>
             </div>
           </div>
         )}
@@ -547,21 +1048,18 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
                 <li>• The video format is not supported by your browser</li>
                 <li>• Network connectivity issues</li>
                 <li>• CORS or authentication restrictions</li>
-                {item.url.toLowerCase().endsWith('.mkv') && (
-                  <>
-                    <li className="text-yellow-400">• MKV files may have audio codec compatibility issues</li>
-                    <li className="text-yellow-400">• Browsers only support AAC, MP3, Opus, and Vorbis audio</li>
-                    <li className="text-yellow-400">• AC3, DTS, EAC3 audio codecs are not supported in browsers</li>
-                  </>
-                )}
+                {playbackPlan?.reason && <li className="text-yellow-400">• {playbackPlan.reason}</li>}
                 {mpvError && <li className="text-yellow-400">• mpv fallback failed: {mpvError}</li>}
+                {item.source === 'Plex' && !playbackSource?.transcoding && (
+                  <li className="text-yellow-400">• Set Plex playback to Transcode in Settings to have the server convert it</li>
+                )}
               </ul>
-              {!window.electron?.mpv && item.url.toLowerCase().endsWith('.mkv') && (
+              {!window.electron?.mpv && playbackPlan?.reason && (
                 <p className="text-xs text-yellow-400 bg-yellow-900/20 p-2 rounded">
-                  <strong>Tip:</strong> Running in Electron with mpv installed enables playback of MKV files with any audio codec.
+                  <strong>Tip:</strong> Running in Electron with mpv installed enables playback of any video and audio codec.
                 </p>
               )}
-              {!window.electron?.mpv && !item.url.toLowerCase().endsWith('.mkv') && (
+              {!window.electron?.mpv && !playbackPlan?.reason && (
                 <p className="text-xs text-white/50">
                   Tip: Running in Electron with mpv installed enables playback of more stream types.
                 </p>
@@ -594,37 +1092,86 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
               {episodeInfo && (
                 <p className="text-sm text-white/70">{episodeInfo}</p>
               )}
+              {item.type === "TV" && <NowNextInfo item={item} />}
             </div>
             {useMpv && (
-              <div className="rounded bg-green-600/80 px-3 py-1 text-xs font-medium">
+              <div title={playbackPlan?.reason || undefined} className="rounded bg-green-600/80 px-3 py-1 text-xs font-medium">
                 mpv player
               </div>
             )}
+            {!useMpv && playbackSource?.transcoding && (
+              <div
+                title={playbackSource.reason || undefined}
+                className="rounded bg-[#E5A00D]/80 px-3 py-1 text-xs font-medium text-black"
+              >
+                Plex transcode
+              </div>
+            )}
           </div>
         </motion.div>
 
-        {/* Bottom Controls - only show when not using mpv */}
-        {!useMpv && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: showControls ? 1 : 0, y: showControls ? 0 : 20 }}
-            transition={{ duration: 0.3 }}
-            className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent px-8 pb-6 pt-12"
+        {/* Up Next replaces Skip Credits */}
+        {showUpNext && nextItem && (
+          <UpNextCard
+            key={nextItem.url}
+            item={nextItem}
+            countdown={settings.autoplayNextEpisode ? UP_NEXT_COUNTDOWN : null}
+            isRunning={isPlaying || hasEnded}
+            askStillWatching={askStillWatching}
+            onPlay={() => playNextItem(false)}
+            onAutoplay={() => playNextItem(true)}
+            onDismiss={() => setIsUpNextDismissed(true)}
+            onStop={onClose}
+          />
+        )}
+
+        {/* Skip Intro / Skip Credits */}
+        {activeMarker && !(showUpNext && activeMarker.type === "credits") && (
+          <Button
+            onClick={() => skipMarker(activeMarker)}
+            className="absolute bottom-36 right-8 z-10 border border-white/40 bg-black/70 text-white backdrop-blur-sm hover:bg-white hover:text-black"
           >
-          {/* Progress Bar */}
-          <div className="mb-4">
-            <Slider
-              value={[currentTime]}
-              max={duration || 100}
-              step={0.1}
-              onValueChange={handleProgressChange}
-              className="cursor-pointer"
-            />
-            <div className="mt-1 flex justify-between text-xs text-white/70">
-              <span>{formatTime(currentTime)}</span>
-              <span>{formatTime(duration)}</span>
+            <ChevronsRight className="h-5 w-5" />
+            {activeMarker.type === "intro" ? "Skip Intro" : "Skip Credits"}
+          </Button>
+        )}
+
+        {/* Bottom Controls - drive the video element or mpv */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: showControls ? 1 : 0, y: showControls ? 0 : 20 }}
+          transition={{ duration: 0.3 }}
+          className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent px-8 pb-6 pt-12"
+        >
+          {/* Progress Bar (live streams have no fixed end, so they get a live edge button instead) */}
+          {isLive ? (
+            <div className="mb-4 flex justify-end">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => engineRef.current?.seekToLiveEdge()}
+                disabled={!isBehindLiveEdge}
+                className="gap-2 text-white hover:bg-white/10 hover:text-white disabled:opacity-100"
+              >
+                <Radio className={`h-4 w-4 ${isBehindLiveEdge ? "text-white/50" : "text-[var(--netflix-red)]"}`} />
+                {isBehindLiveEdge ? "Go Live" : "Live"}
+              </Button>
             </div>
-          </div>
+          ) : (
+            <div className="mb-4">
+              <Slider
+                value={[currentTime]}
+                max={duration || 100}
+                step={0.1}
+                onValueChange={handleProgressChange}
+                className="cursor-pointer"
+              />
+              <div className="mt-1 flex justify-between text-xs text-white/70">
+                <span>{formatTime(currentTime)}</span>
+                <span>{formatTime(duration)}</span>
+              </div>
+            </div>
+          )}
 
           {/* Control Buttons */}
           <div className="flex items-center justify-between">
@@ -690,14 +1237,35 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
             </div>
 
             <div className="flex items-center gap-3">
-              {/* Settings (placeholder) */}
-              <Button
-                variant="ghost"
-                size="icon"
-                className="h-10 w-10 text-white hover:bg-white/10 hover:text-white"
-              >
-                <Settings className="h-5 w-5" />
-              </Button>
+              {/* Settings */}
+              <div className="relative">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+                  className="h-10 w-10 text-white hover:bg-white/10 hover:text-white"
+                >
+                  <Settings className="h-5 w-5" />
+                </Button>
+                {isSettingsOpen && (
+                  <PlayerSettingsMenu
+                    qualityLevels={qualityLevels}
+                    selectedQuality={selectedQuality}
+                    playingQuality={playingQuality}
+                    onSelectQuality={handleSelectQuality}
+                    audioTracks={audioTracks.tracks}
+                    selectedAudioTrack={audioTracks.selected}
+                    onSelectAudioTrack={handleSelectAudioTrack}
+                    textTracks={menuTextTracks.tracks}
+                    selectedTextTrack={menuTextTracks.selected}
+                    onSelectTextTrack={handleSelectTextTrack}
+                    onLoadSubtitleFile={useMpv ? undefined : handleLoadSubtitleFile}
+                    onLoadSubtitleUrl={useMpv ? undefined : handleLoadSubtitleUrl}
+                    subtitleOffset={selectedSubtitle && !useMpv ? subtitleOffset : null}
+                    onSubtitleOffsetChange={handleSubtitleOffsetChange}
+                  />
+                )}
+              </div>
 
               {/* Fullscreen */}
               <Button
@@ -715,7 +1283,6 @@ export function VideoPlayer({ item, onClose }: VideoPlayerProps) {
             </div>
           </div>
         </motion.div>
-        )}
 
         {/* Center Play Button (when paused and not loading and not using mpv) */}
         {!isPlaying && !isLoading && !useMpv && (
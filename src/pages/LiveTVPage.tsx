@@ -1,7 +1,16 @@
+import { useState } from "react";
+import { LayoutGrid, CalendarClock } from "lucide-react";
 import { HeroSection } from "../components/HeroSection";
 import { FilterSidebar } from "../components/FilterSidebar";
 import { LiveTVPaginatedContent } from "../components/LiveTVPaginatedContent";
+import { EpgGuide } from "../components/EpgGuide";
+import { Button } from "../components/ui/button";
 import { ContentItem } from "../types/content";
+import { loadSettings } from "../utils/settings";
+
+type LiveTVView = "channels" | "guide";
+
+const VIEW_STORAGE_KEY = "kedi_live_tv_view";
 
 interface LiveTVPageProps {
   tvChannels: ContentItem[];
@@ -43,6 +52,16 @@ export function LiveTVPage({
   isItemInMyList
 }: LiveTVPageProps) {
   const backgroundItem = hoveredTV || filteredTVChannels[0] || tvChannels[0];
+  const epgEnabled = loadSettings().epgEnabled;
+  const [view, setView] = useState<LiveTVView>(
+    () => (localStorage.getItem(VIEW_STORAGE_KEY) as LiveTVView) || "channels"
+  );
+  const activeView = epgEnabled ? view : "channels";
+
+  const handleViewChange = (newView: LiveTVView) => {
+    setView(newView);
+    localStorage.setItem(VIEW_STORAGE_KEY, newView);
+  };
 
   return (
     <>
@@ -79,16 +98,53 @@ export function LiveTVPage({
 
           {/* Right Content Area */}
           <div className="min-w-0 flex-1">
-            <LiveTVPaginatedContent
-              items={filteredTVChannels}
-              pageSize={24}
-              onPlay={onPlay}
-              onItemHover={onItemHover}
-              onToggleMyList={onToggleMyList}
-              isItemInMyList={isItemInMyList}
-              searchTerm={liveTVSearchTerm}
-              selectedLetter={liveTVSelectedLetter}
-            />
+            {/* Layout switch (guide requires EPG data) */}
+            {epgEnabled && (
+              <div className="mb-4 flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleViewChange("channels")}
+                  className={activeView === "channels"
+                    ? "border-[#E50914] bg-[#E50914] text-white hover:bg-[#E50914]/90"
+                    : "border-white/20 bg-white/5 text-white hover:bg-white/10"}
+                >
+                  <LayoutGrid className="h-4 w-4 mr-2" />
+                  Channels
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleViewChange("guide")}
+                  className={activeView === "guide"
+                    ? "border-[#E50914] bg-[#E50914] text-white hover:bg-[#E50914]/90"
+                    : "border-white/20 bg-white/5 text-white hover:bg-white/10"}
+                >
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                  TV Guide
+                </Button>
+              </div>
+            )}
+
+            {activeView === "guide" ? (
+              <EpgGuide
+                items={filteredTVChannels}
+                onPlay={onPlay}
+                searchTerm={liveTVSearchTerm}
+                selectedLetter={liveTVSelectedLetter}
+              />
+            ) : (
+              <LiveTVPaginatedContent
+                items={filteredTVChannels}
+                pageSize={24}
+                onPlay={onPlay}
+                onItemHover={onItemHover}
+                onToggleMyList={onToggleMyList}
+                isItemInMyList={isItemInMyList}
+                searchTerm={liveTVSearchTerm}
+                selectedLetter={liveTVSelectedLetter}
+              />
+            )}
           </div>
         </div>
       </div>
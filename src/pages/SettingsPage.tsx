@@ -1,15 +1,29 @@
 /// <reference path="../types/electron.d.ts" />
-import { useState, DragEvent, useEffect } from "react";
-import { AppSettings, loadSettings, saveSettings, resetSettings } from "../utils/settings";
+import { useState, DragEvent, useEffect, useRef } from "react";
+import {
+  AppSettings,
+  SubtitleBackground,
+  SubtitlePosition,
+  SubtitleSize,
+  loadSettings,
+  saveSettings,
+  resetSettings,
+} from "../utils/settings";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
 import { Switch } from "../components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
-import { X, Check, GripVertical, ChevronLeft, RotateCcw, RefreshCw, Calendar, Play, HardDrive } from "lucide-react";
+import { X, Check, GripVertical, ChevronLeft, RotateCcw, RefreshCw, Calendar, Play, Upload } from "lucide-react";
 import { toast } from "sonner";
-import { syncIPTVData, getIPTVCacheInfo } from "../utils/iptvSync";
-import { syncPlexData } from "../utils/plexSync";
+import { importEpgFile, getEpgInfo } from "../utils/epgSync";
+import { requestSync, EPG_SOURCE_ID } from "../utils/syncManager";
+import { getSourceAdapters } from "../utils/sourceRegistry";
+import { SourceSettingsSection, SourceSettingsSectionProps, formatLastSync } from "../components/SourceSettingsSection";
+import { IPTVPlaylistSettings } from "../components/IPTVPlaylistSettings";
+import { PlexServerSettings } from "../components/PlexServerSettings";
+import { SyncActivitySection } from "../components/SyncActivitySection";
+import { SUBTITLE_BACKGROUNDS } from "../utils/subtitles";
 
 interface SettingsPageProps {
   onClose?: () => void;
@@ -45,129 +59,61 @@ const AVAILABLE_LANGUAGES = [
   { code: "ukr", name: "Ukrainian", flag: "🇺🇦" },
 ];
 
+// Subtitle colors offered in the picker
+const SUBTITLE_COLORS = [
+  { name: "White", value: "#ffffff" },
+  { name: "Yellow", value: "#ffeb3b" },
+  { name: "Green", value: "#69f0ae" },
+  { name: "Cyan", value: "#4dd0e1" },
+  { name: "Pink", value: "#f48fb1" },
+];
+
+// Preview styles, scaled down from the player's
+const SUBTITLE_PREVIEW_SIZES: Record<SubtitleSize, string> = {
+  small: "text-sm",
+  medium: "text-base",
+  large: "text-xl",
+};
+
+// Sources with their own settings editor instead of the schema-built form
+const customSourceSettings: Record<string, (props: SourceSettingsSectionProps) => JSX.Element> = {
+  iptv: IPTVPlaylistSettings,
+  plex: PlexServerSettings,
+};
+
 export function SettingsPage({ onClose, onSettingsChange, onContentReload }: SettingsPageProps) {
   const [initialSettings, setInitialSettings] = useState<AppSettings>(loadSettings());
   const [settings, setSettings] = useState<AppSettings>(loadSettings());
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
-  const [isSyncing, setIsSyncing] = useState(false);
-  const [isPlexSyncing, setIsPlexSyncing] = useState(false);
-  const [isTestingPlex, setIsTestingPlex] = useState(false);
+  const [isEpgSyncing, setIsEpgSyncing] = useState(false);
+  const [epgInfo, setEpgInfo] = useState<{ channelCount: number; programmeCount: number } | null>(null);
+  const epgFileInputRef = useRef<HTMLInputElement>(null);
   const [isTestingTMDB, setIsTestingTMDB] = useState(false);
   const [isTestingYouTube, setIsTestingYouTube] = useState(false);
-  const [iptvCacheInfo, setIptvCacheInfo] = useState<{
-    exists: boolean;
-    itemCount?: number;
-    storageSize?: number;
-    driver?: string;
-    driverName?: string;
-    lastModified?: string;
-    lastSync?: string;
-  } | null>(null);
-  const [iptvUrlSaveTimeout, setIptvUrlSaveTimeout] = useState<NodeJS.Timeout | null>(null);
-  const [iptvTimeSaveTimeout, setIptvTimeSaveTimeout] = useState<NodeJS.Timeout | null>(null);
-  const [plexUrlSaveTimeout, setPlexUrlSaveTimeout] = useState<NodeJS.Timeout | null>(null);
-  const [plexTokenSaveTimeout, setPlexTokenSaveTimeout] = useState<NodeJS.Timeout | null>(null);
-  const [plexTimeSaveTimeout, setPlexTimeSaveTimeout] = useState<NodeJS.Timeout | null>(null);
-
-  // Load IPTV cache info on mount and when IPTV is enabled
-  useEffect(() => {
-    if (settings.iptvEnabled) {
-      loadCacheInfo();
-    }
-  }, [settings.iptvEnabled]);
+  const [sourceSaveTimeout, setSourceSaveTimeout] = useState<NodeJS.Timeout | null>(null);
+  const [epgSaveTimeout, setEpgSaveTimeout] = useState<NodeJS.Timeout | null>(null);
 
-  // Also load cache info when the page first opens (for already-enabled IPTV)
+  // Load EPG statistics when the guide is enabled
   useEffect(() => {
-    if (settings.iptvEnabled) {
-      loadCacheInfo();
-    }
-  }, []);
-
-  const loadCacheInfo = async () => {
-    try {
-      const info = await getIPTVCacheInfo();
-      if (info && info.success) {
-        setIptvCacheInfo({
-          exists: info.exists || false,
-          itemCount: info.itemCount,
-          storageSize: info.storageSize,
-          driver: info.driver,
-          driverName: info.driverName,
-          lastModified: info.lastModified,
-          lastSync: info.lastSync,
-        });
-      } else if (info && !info.success) {
-        console.error("Failed to get IPTV cache info:", info.error);
-      }
-    } catch (error) {
-      console.error("Error loading IPTV cache info:", error);
+    if (settings.epgEnabled) {
+      getEpgInfo().then(setEpgInfo);
     }
-  };
+  }, [settings.epgEnabled]);
 
-  const handleIptvUrlChange = (url: string) => {
-    const newSettings = { ...settings, iptvUrl: url };
+  const handleSourceSettingsChange = (newSettings: AppSettings, options?: { debounce?: boolean }) => {
     setSettings(newSettings);
 
     // Clear existing timeout
-    if (iptvUrlSaveTimeout) {
-      clearTimeout(iptvUrlSaveTimeout);
+    if (sourceSaveTimeout) {
+      clearTimeout(sourceSaveTimeout);
+      setSourceSaveTimeout(null);
     }
 
-    // Auto-save after 500ms of no typing
-    const timeout = setTimeout(() => {
-      saveSettings(newSettings);
+    if (!options?.debounce) {
+      saveSettings(newSettings); // Auto-save
       onSettingsChange?.(newSettings);
-      setInitialSettings(newSettings); // Update initial to mark as saved
-    }, 500);
-
-    setIptvUrlSaveTimeout(timeout);
-  };
-
-  const handleIptvTimeChange = (time: string) => {
-    const newSettings = { ...settings, iptvSyncTime: time };
-    setSettings(newSettings);
-
-    // Clear existing timeout
-    if (iptvTimeSaveTimeout) {
-      clearTimeout(iptvTimeSaveTimeout);
-    }
-
-    // Auto-save after 500ms of no typing
-    const timeout = setTimeout(() => {
-      saveSettings(newSettings);
-      onSettingsChange?.(newSettings);
-      setInitialSettings(newSettings); // Update initial to mark as saved
-    }, 500);
-
-    setIptvTimeSaveTimeout(timeout);
-  };
-
-  const handlePlexUrlChange = (url: string) => {
-    const newSettings = { ...settings, plexUrl: url };
-    setSettings(newSettings);
-
-    // Clear existing timeout
-    if (plexUrlSaveTimeout) {
-      clearTimeout(plexUrlSaveTimeout);
-    }
-
-    // Auto-save after 500ms of no typing
-    const timeout = setTimeout(() => {
-      saveSettings(newSettings);
-      onSettingsChange?.(newSettings);
-      setInitialSettings(newSettings); // Update initial to mark as saved
-    }, 500);
-
-    setPlexUrlSaveTimeout(timeout);
-  };
-
-  const handlePlexTokenChange = (token: string) => {
-    const newSettings = { ...settings, plexToken: token };
-    setSettings(newSettings);
-
-    // Clear existing timeout
-    if (plexTokenSaveTimeout) {
-      clearTimeout(plexTokenSaveTimeout);
+      setInitialSettings(newSettings);
+      return;
     }
 
     // Auto-save after 500ms of no typing
@@ -177,16 +123,16 @@ export function SettingsPage({ onClose, onSettingsChange, onContentReload }: Set
       setInitialSettings(newSettings); // Update initial to mark as saved
     }, 500);
 
-    setPlexTokenSaveTimeout(timeout);
+    setSourceSaveTimeout(timeout);
   };
 
-  const handlePlexTimeChange = (time: string) => {
-    const newSettings = { ...settings, plexSyncTime: time };
+  const handleEpgFieldChange = (key: "epgUrl" | "epgSyncTime", value: string) => {
+    const newSettings = { ...settings, [key]: value };
     setSettings(newSettings);
 
     // Clear existing timeout
-    if (plexTimeSaveTimeout) {
-      clearTimeout(plexTimeSaveTimeout);
+    if (epgSaveTimeout) {
+      clearTimeout(epgSaveTimeout);
     }
 
     // Auto-save after 500ms of no typing
@@ -196,7 +142,7 @@ export function SettingsPage({ onClose, onSettingsChange, onContentReload }: Set
       setInitialSettings(newSettings); // Update initial to mark as saved
     }, 500);
 
-    setPlexTimeSaveTimeout(timeout);
+    setEpgSaveTimeout(timeout);
   };
 
   // Check if settings have changed from initial values
@@ -262,127 +208,59 @@ export function SettingsPage({ onClose, onSettingsChange, onContentReload }: Set
     setDraggedIndex(null);
   };
 
-  const handleManualSync = async () => {
-    if (!settings.iptvUrl) {
-      toast.error("Please enter an IPTV URL first");
-      return;
-    }
-
-    // Save settings before syncing to ensure URL is persisted
-    saveSettings(settings);
-    onSettingsChange?.(settings);
-    setInitialSettings(settings);
-
-    setIsSyncing(true);
-    const result = await syncIPTVData(settings.iptvUrl, (message) => {
-      toast.info(message);
-    });
-    setIsSyncing(false);
-
+  const applyEpgSyncResult = async (result: { success: boolean; message: string; itemCount?: number }) => {
     if (result.success) {
-      toast.success(`${result.message} (${result.itemCount} items)`);
+      toast.success(`${result.message} (${result.itemCount} programmes)`);
       // Update the last sync time in current settings
       const updatedSettings = {
         ...settings,
-        iptvLastSync: new Date().toISOString(),
+        epgLastSync: new Date().toISOString(),
       };
       setSettings(updatedSettings);
       saveSettings(updatedSettings);
       onSettingsChange?.(updatedSettings);
       setInitialSettings(updatedSettings);
-      // Reload cache info
-      await loadCacheInfo();
-      // Trigger content reload in parent to show new content immediately
-      onContentReload?.();
+      setEpgInfo(await getEpgInfo());
     } else {
       toast.error(result.message);
     }
   };
 
-  const handleManualPlexSync = async () => {
-    if (!settings.plexUrl || !settings.plexToken) {
-      toast.error("Please enter Plex server URL and token first");
+  const handleManualEpgSync = async () => {
+    if (!settings.epgUrl) {
+      toast.error("Please enter a guide URL first");
       return;
     }
 
-    // Save settings before syncing to ensure URL and token are persisted
+    // Save settings before syncing to ensure the URL is persisted
     saveSettings(settings);
     onSettingsChange?.(settings);
     setInitialSettings(settings);
 
-    setIsPlexSyncing(true);
-    const result = await syncPlexData(settings.plexUrl, settings.plexToken, (message) => {
+    setIsEpgSyncing(true);
+    const result = await requestSync(EPG_SOURCE_ID, EPG_SOURCE_ID, (message) => {
       toast.info(message);
     });
-    setIsPlexSyncing(false);
+    setIsEpgSyncing(false);
 
-    if (result.success) {
-      toast.success(`${result.message} (${result.itemCount} items)`);
-      // Update the last sync time in current settings
-      const updatedSettings = {
-        ...settings,
-        plexLastSync: new Date().toISOString(),
-      };
-      setSettings(updatedSettings);
-      saveSettings(updatedSettings);
-      onSettingsChange?.(updatedSettings);
-      setInitialSettings(updatedSettings);
-      // Trigger content reload in parent to show new content immediately
-      onContentReload?.();
-    } else {
-      toast.error(result.message);
-    }
+    await applyEpgSyncResult(result);
   };
 
-  const formatLastSync = (isoDate: string | null): string => {
-    if (!isoDate) return "Never";
-    
-    const date = new Date(isoDate);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-    
-    if (diffDays === 0) {
-      return `Today at ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
-    } else if (diffDays === 1) {
-      return "Yesterday";
-    } else if (diffDays < 7) {
-      return `${diffDays} days ago`;
-    } else {
-      return date.toLocaleDateString();
-    }
-  };
+  const handleEpgFileImport = async (file: File | undefined) => {
+    if (!file) return;
 
-  const handleTestPlex = async () => {
-    if (!settings.plexUrl || !settings.plexToken) {
-      toast.error("Please enter Plex server URL and token first");
-      return;
-    }
-
-    setIsTestingPlex(true);
-
-    try {
-      // Test connection by fetching libraries
-      const plexUrl = settings.plexUrl.replace(/\/$/, "");
-      const response = await fetch(`${plexUrl}/library/sections?X-Plex-Token=${settings.plexToken}`, {
-        headers: {
-          Accept: "application/json",
-        },
-      });
-
-      setIsTestingPlex(false);
+    setIsEpgSyncing(true);
+    const result = await importEpgFile(file, (message) => {
+      toast.info(message);
+    });
+    setIsEpgSyncing(false);
 
-      if (response.ok) {
-        const data = await response.json();
-        const libraryCount = data.MediaContainer?.Directory?.length || 0;
-        toast.success(`Plex connection successful! Found ${libraryCount} libraries ✓`);
-      } else {
-        toast.error(`Plex connection failed: ${response.status} - ${response.statusText}`);
-      }
-    } catch (error) {
-      setIsTestingPlex(false);
-      toast.error(`Plex connection error: ${error instanceof Error ? error.message : "Unknown error"}`);
+    // Allow importing the same file again
+    if (epgFileInputRef.current) {
+      epgFileInputRef.current.value = "";
     }
+
+    await applyEpgSyncResult(result);
   };
 
   const handleTestTMDB = async () => {
@@ -574,206 +452,187 @@ export function SettingsPage({ onClose, onSettingsChange, onContentReload }: Set
               )}
             </section>
 
-            {/* IPTV Source */}
+            {/* Subtitles */}
             <section className="p-6 border border-white/10 rounded-lg bg-white/5 space-y-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h2 className="text-xl mb-1">IPTV Source</h2>
-                  <p className="text-white/60 text-sm">
-                    Enable and configure external IPTV data source
-                  </p>
-                </div>
-                <Switch
-                  checked={settings.iptvEnabled}
-                  onCheckedChange={(checked) => {
-                    const newSettings = { ...settings, iptvEnabled: checked };
-                    setSettings(newSettings);
-                    saveSettings(newSettings); // Auto-save
-                    onSettingsChange?.(newSettings);
+              <div>
+                <h2 className="text-xl mb-1">Subtitles</h2>
+                <p className="text-white/60 text-sm">How subtitles look in the player</p>
+              </div>
+
+              {/* Preview */}
+              <div
+                className={`flex h-32 justify-center rounded-lg bg-gradient-to-br from-slate-600 to-slate-900 p-4 ${
+                  settings.subtitlePosition === "top" ? "items-start" : "items-end"
+                }`}
+              >
+                <span
+                  className={`px-2 py-0.5 ${SUBTITLE_PREVIEW_SIZES[settings.subtitleSize]}`}
+                  style={{
+                    color: settings.subtitleColor,
+                    backgroundColor: SUBTITLE_BACKGROUNDS[settings.subtitleBackground],
+                    textShadow: settings.subtitleBackground === "none" ? "0 0 4px #000, 0 0 2px #000" : undefined,
                   }}
-                />
+                >
+                  The quick brown fox jumps over the lazy dog
+                </span>
               </div>
 
-              {settings.iptvEnabled && (
-                <div className="space-y-6">
-                  {/* IPTV URL */}
-                  <div className="space-y-2">
-                    <Label htmlFor="iptv-url">IPTV Fetching URL</Label>
-                    <Input
-                      id="iptv-url"
-                      type="url"
-                      placeholder="https://example.com/iptv/data.json"
-                      value={settings.iptvUrl}
-                      onChange={(e) => handleIptvUrlChange(e.target.value)}
-                      className="border-white/20 bg-transparent text-white placeholder:text-white/40"
-                    />
-                  </div>
+              <div className="space-y-0 divide-y divide-white/10">
+                {/* Size */}
+                <div className="flex items-center justify-between py-4 first:pt-0">
+                  <Label htmlFor="subtitle-size">Size</Label>
+                  <Select
+                    value={settings.subtitleSize}
+                    onValueChange={(value) =>
+                      setSettings((prev) => ({ ...prev, subtitleSize: value as SubtitleSize }))
+                    }
+                  >
+                    <SelectTrigger id="subtitle-size" className="w-40 border-white/20 bg-transparent text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="small">Small</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="large">Large</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-                  {/* Auto Sync Toggle */}
-                  <div className="flex items-center justify-between pt-6 border-t border-white/10">
-                    <div>
-                      <Label>Auto Sync</Label>
-                      <p className="text-sm text-white/60 mt-1">Automatically download updates</p>
-                    </div>
-                    <Switch
-                      checked={settings.iptvAutoSync}
-                      onCheckedChange={(checked) => {
-                        const newSettings = { ...settings, iptvAutoSync: checked };
-                        setSettings(newSettings);
-                        saveSettings(newSettings); // Auto-save
-                        onSettingsChange?.(newSettings);
-                        setInitialSettings(newSettings);
-                      }}
-                    />
+                {/* Color */}
+                <div className="flex items-center justify-between py-4">
+                  <Label>Color</Label>
+                  <div className="flex gap-2">
+                    {SUBTITLE_COLORS.map((color) => (
+                      <button
+                        key={color.value}
+                        onClick={() => setSettings((prev) => ({ ...prev, subtitleColor: color.value }))}
+                        title={color.name}
+                        className={`h-7 w-7 rounded-full border-2 transition-all ${
+                          settings.subtitleColor === color.value ? "border-[#E50914] scale-110" : "border-white/20"
+                        }`}
+                        style={{ backgroundColor: color.value }}
+                      />
+                    ))}
                   </div>
+                </div>
 
-                  {/* Auto Sync Settings */}
-                  {settings.iptvAutoSync && (
-                    <div className="space-y-4 pl-4 border-l-2 border-[#E50914]/30">
-                      {/* Sync Interval */}
-                      <div className="space-y-2">
-                        <Label htmlFor="sync-interval">Sync Every</Label>
-                        <Select
-                          value={settings.iptvSyncIntervalDays.toString()}
-                          onValueChange={(value) => {
-                            const newSettings = {
-                              ...settings,
-                              iptvSyncIntervalDays: parseInt(value),
-                            };
-                            setSettings(newSettings);
-                            saveSettings(newSettings); // Auto-save
-                            onSettingsChange?.(newSettings);
-                            setInitialSettings(newSettings);
-                          }}
-                        >
-                          <SelectTrigger
-                            id="sync-interval"
-                            className="border-white/20 bg-transparent text-white"
-                          >
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="1">1 Day</SelectItem>
-                            <SelectItem value="2">2 Days</SelectItem>
-                            <SelectItem value="3">3 Days</SelectItem>
-                            <SelectItem value="7">7 Days</SelectItem>
-                            <SelectItem value="14">14 Days</SelectItem>
-                            <SelectItem value="30">30 Days</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
+                {/* Background */}
+                <div className="flex items-center justify-between py-4">
+                  <Label htmlFor="subtitle-background">Background</Label>
+                  <Select
+                    value={settings.subtitleBackground}
+                    onValueChange={(value) =>
+                      setSettings((prev) => ({ ...prev, subtitleBackground: value as SubtitleBackground }))
+                    }
+                  >
+                    <SelectTrigger id="subtitle-background" className="w-40 border-white/20 bg-transparent text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None (outline)</SelectItem>
+                      <SelectItem value="translucent">Translucent</SelectItem>
+                      <SelectItem value="solid">Solid</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-                      {/* Sync Time */}
-                      <div className="space-y-2">
-                        <Label htmlFor="sync-time">Sync Time (24h)</Label>
-                        <Input
-                          id="sync-time"
-                          type="time"
-                          value={settings.iptvSyncTime}
-                          onChange={(e) => handleIptvTimeChange(e.target.value)}
-                          className="border-white/20 bg-transparent text-white"
-                        />
-                        <p className="text-xs text-white/50">
-                          Downloads will occur at this time each interval
-                        </p>
-                      </div>
-                    </div>
-                  )}
+                {/* Position */}
+                <div className="flex items-center justify-between py-4">
+                  <Label htmlFor="subtitle-position">Position</Label>
+                  <Select
+                    value={settings.subtitlePosition}
+                    onValueChange={(value) =>
+                      setSettings((prev) => ({ ...prev, subtitlePosition: value as SubtitlePosition }))
+                    }
+                  >
+                    <SelectTrigger id="subtitle-position" className="w-40 border-white/20 bg-transparent text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="bottom">Bottom</SelectItem>
+                      <SelectItem value="top">Top</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </section>
 
-                  {/* Last Sync Info & Manual Sync */}
-                  <div className="flex items-center justify-between pt-6 border-t border-white/10">
-                    <div className="flex items-center gap-2">
-                      <Calendar className="h-4 w-4 text-white/50" />
-                      <div>
-                        <p className="text-sm text-white/70">Last synced</p>
-                        <p className="text-sm text-white/90 mt-0.5">
-                          {formatLastSync(settings.iptvLastSync)}
-                        </p>
-                      </div>
-                    </div>
-                    <Button
-                      onClick={handleManualSync}
-                      disabled={isSyncing || !settings.iptvUrl}
-                      variant="outline"
-                      className="border-[#E50914]/50 bg-[#E50914]/10 hover:bg-[#E50914]/20 text-white"
-                    >
-                      <RefreshCw className={`h-4 w-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} />
-                      {isSyncing ? "Syncing..." : "Sync Now"}
-                    </Button>
+            {/* Playback */}
+            <section className="p-6 border border-white/10 rounded-lg bg-white/5 space-y-6">
+              <div>
+                <h2 className="text-xl mb-1">Playback</h2>
+                <p className="text-white/60 text-sm">What happens when an episode ends</p>
+              </div>
+
+              <div className="space-y-0 divide-y divide-white/10">
+                {/* Autoplay */}
+                <div className="flex items-center justify-between py-4 first:pt-0">
+                  <div>
+                    <Label>Autoplay Next Episode</Label>
+                    <p className="text-sm text-white/60 mt-1">Play the next episode after a countdown</p>
                   </div>
+                  <Switch
+                    checked={settings.autoplayNextEpisode}
+                    onCheckedChange={(checked) =>
+                      setSettings((prev) => ({ ...prev, autoplayNextEpisode: checked }))
+                    }
+                  />
+                </div>
 
-                  {/* Cache Info */}
-                  {iptvCacheInfo && (
-                    <div className="p-4 border border-white/10 rounded-lg bg-white/5 space-y-3">
-                      <div className="flex items-center gap-2 text-white/70 mb-2">
-                        <HardDrive className="h-4 w-4" />
-                        <span className="text-sm font-medium">Storage Information</span>
-                      </div>
-                      {iptvCacheInfo.exists ? (
-                        <>
-                          <div className="grid grid-cols-3 gap-4 text-sm">
-                            <div>
-                              <p className="text-white/50">Items Cached</p>
-                              <p className="text-white/90 font-medium">
-                                {iptvCacheInfo.itemCount?.toLocaleString() || "N/A"}
-                              </p>
-                            </div>
-                            <div>
-                              <p className="text-white/50">Storage Size</p>
-                              <p className="text-white/90 font-medium">
-                                {iptvCacheInfo.storageSize
-                                  ? `${(iptvCacheInfo.storageSize / 1024 / 1024).toFixed(2)} MB`
-                                  : "N/A"}
-                              </p>
-                            </div>
-                            <div>
-                              <p className="text-white/50">Storage Type</p>
-                              <p className="text-white/90 font-medium">
-                                {iptvCacheInfo.driverName || "Unknown"}
-                              </p>
-                            </div>
-                          </div>
-                          {iptvCacheInfo.lastModified && (
-                            <div className="pt-2 border-t border-white/5">
-                              <p className="text-white/50 text-xs">Last Modified</p>
-                              <p className="text-white/70 text-sm">
-                                {new Date(iptvCacheInfo.lastModified).toLocaleString()}
-                              </p>
-                            </div>
-                          )}
-                        </>
-                      ) : (
-                        <div className="space-y-2">
-                          <p className="text-sm text-white/60">No cache found. Sync to create cache.</p>
-                          {iptvCacheInfo.driverName && (
-                            <div className="pt-2 border-t border-white/5">
-                              <p className="text-white/50 text-xs">Storage Type (Ready)</p>
-                              <p className="text-white/70 text-sm">
-                                {iptvCacheInfo.driverName}
-                              </p>
-                            </div>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  )}
+                {/* Still Watching */}
+                <div className="flex items-center justify-between py-4">
+                  <div>
+                    <Label htmlFor="still-watching">Ask If Still Watching</Label>
+                    <p className="text-sm text-white/60 mt-1">Stop autoplay until you confirm, after episodes in a row</p>
+                  </div>
+                  <Select
+                    value={settings.stillWatchingEpisodes.toString()}
+                    onValueChange={(value) =>
+                      setSettings((prev) => ({ ...prev, stillWatchingEpisodes: parseInt(value) }))
+                    }
+                    disabled={!settings.autoplayNextEpisode}
+                  >
+                    <SelectTrigger id="still-watching" className="w-40 border-white/20 bg-transparent text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">Never</SelectItem>
+                      <SelectItem value="2">After 2 episodes</SelectItem>
+                      <SelectItem value="3">After 3 episodes</SelectItem>
+                      <SelectItem value="5">After 5 episodes</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
-              )}
+              </div>
             </section>
 
-            {/* Plex Integration */}
+            {/* Content Sources */}
+            {getSourceAdapters().map((adapter) => {
+              const Section = customSourceSettings[adapter.id] || SourceSettingsSection;
+              return (
+                <Section
+                  key={adapter.id}
+                  adapter={adapter}
+                  settings={settings}
+                  onSettingsChange={handleSourceSettingsChange}
+                  onContentReload={onContentReload}
+                />
+              );
+            })}
+
+            {/* TV Guide (EPG) */}
             <section className="p-6 border border-white/10 rounded-lg bg-white/5 space-y-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <h2 className="text-xl mb-1">Plex Integration</h2>
+                  <h2 className="text-xl mb-1">TV Guide (EPG)</h2>
                   <p className="text-white/60 text-sm">
-                    Connect your Plex Media Server to access your movies and TV shows
+                    Show now and next programmes on live channels from an XMLTV guide
                   </p>
                 </div>
                 <Switch
-                  checked={settings.plexEnabled}
+                  checked={settings.epgEnabled}
                   onCheckedChange={(checked) => {
-                    const newSettings = { ...settings, plexEnabled: checked };
+                    const newSettings = { ...settings, epgEnabled: checked };
                     setSettings(newSettings);
                     saveSettings(newSettings); // Auto-save
                     onSettingsChange?.(newSettings);
@@ -782,59 +641,46 @@ export function SettingsPage({ onClose, onSettingsChange, onContentReload }: Set
                 />
               </div>
 
-              {settings.plexEnabled && (
+              {settings.epgEnabled && (
                 <div className="space-y-6">
-                  {/* Plex Server URL */}
+                  {/* Guide URL */}
                   <div className="space-y-2">
-                    <Label htmlFor="plex-url">Plex Server URL</Label>
+                    <Label htmlFor="epg-url">XMLTV URL</Label>
                     <Input
-                      id="plex-url"
+                      id="epg-url"
                       type="url"
-                      placeholder="http://192.168.1.100:32400"
-                      value={settings.plexUrl}
-                      onChange={(e) => handlePlexUrlChange(e.target.value)}
+                      placeholder="https://example.com/guide.xml.gz"
+                      value={settings.epgUrl}
+                      onChange={(e) => handleEpgFieldChange("epgUrl", e.target.value)}
                       className="border-white/20 bg-transparent text-white placeholder:text-white/40"
                     />
                     <p className="text-xs text-white/50">
-                      Include the full URL with port (typically 32400)
+                      Plain and gzipped guides are supported. Channels are matched by tvg-id, then by name
                     </p>
                   </div>
 
-                  {/* Plex Token */}
-                  <div className="space-y-2">
-                    <Label htmlFor="plex-token">Plex Token</Label>
-                    <Input
-                      id="plex-token"
-                      type="text"
-                      placeholder="xxxxxxxxxxxxxxxxxxxx"
-                      value={settings.plexToken}
-                      onChange={(e) => handlePlexTokenChange(e.target.value)}
-                      className="border-white/20 bg-transparent text-white placeholder:text-white/40 font-mono text-sm"
+                  {/* Import File */}
+                  <div className="flex items-center justify-between py-4 border-t border-white/10">
+                    <div>
+                      <Label>Import From File</Label>
+                      <p className="text-sm text-white/60 mt-1">Load a downloaded .xml or .xml.gz guide</p>
+                    </div>
+                    <input
+                      ref={epgFileInputRef}
+                      type="file"
+                      accept=".xml,.gz,.xmltv"
+                      className="hidden"
+                      onChange={(e) => handleEpgFileImport(e.target.files?.[0])}
                     />
-                    <p className="text-xs text-white/50">
-                      Find your token at{" "}
-                      <a
-                        href="https://support.plex.tv/articles/204059436-finding-an-authentication-token-x-plex-token/"
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-[#E50914] hover:underline"
-                      >
-                        Plex Support
-                      </a>
-                    </p>
-                  </div>
-
-                  {/* Test Connection */}
-                  <div className="flex justify-end py-4 border-t border-white/10">
                     <Button
-                      onClick={handleTestPlex}
-                      disabled={isTestingPlex || !settings.plexUrl || !settings.plexToken}
+                      onClick={() => epgFileInputRef.current?.click()}
+                      disabled={isEpgSyncing}
                       variant="outline"
                       size="sm"
                       className="border-[#E50914]/50 bg-[#E50914]/10 hover:bg-[#E50914]/20 text-white"
                     >
-                      <Play className={`h-3 w-3 mr-2 ${isTestingPlex ? "animate-pulse" : ""}`} />
-                      {isTestingPlex ? "Testing..." : "Test Connection"}
+                      <Upload className="h-3 w-3 mr-2" />
+                      Import File
                     </Button>
                   </div>
 
@@ -842,12 +688,12 @@ export function SettingsPage({ onClose, onSettingsChange, onContentReload }: Set
                   <div className="flex items-center justify-between py-4 border-t border-white/10">
                     <div>
                       <Label>Auto Sync</Label>
-                      <p className="text-sm text-white/60 mt-1">Automatically sync Plex library</p>
+                      <p className="text-sm text-white/60 mt-1">Automatically refresh the guide</p>
                     </div>
                     <Switch
-                      checked={settings.plexAutoSync}
+                      checked={settings.epgAutoSync}
                       onCheckedChange={(checked) => {
-                        const newSettings = { ...settings, plexAutoSync: checked };
+                        const newSettings = { ...settings, epgAutoSync: checked };
                         setSettings(newSettings);
                         saveSettings(newSettings); // Auto-save
                         onSettingsChange?.(newSettings);
@@ -857,17 +703,17 @@ export function SettingsPage({ onClose, onSettingsChange, onContentReload }: Set
                   </div>
 
                   {/* Auto Sync Settings */}
-                  {settings.plexAutoSync && (
+                  {settings.epgAutoSync && (
                     <div className="space-y-4 pl-4 border-l-2 border-[#E50914]/30">
                       {/* Sync Interval */}
                       <div className="space-y-2">
-                        <Label htmlFor="plex-sync-interval">Sync Every</Label>
+                        <Label htmlFor="epg-sync-interval">Sync Every</Label>
                         <Select
-                          value={settings.plexSyncIntervalDays.toString()}
+                          value={settings.epgSyncIntervalDays.toString()}
                           onValueChange={(value) => {
                             const newSettings = {
                               ...settings,
-                              plexSyncIntervalDays: parseInt(value),
+                              epgSyncIntervalDays: parseInt(value),
                             };
                             setSettings(newSettings);
                             saveSettings(newSettings); // Auto-save
@@ -876,7 +722,7 @@ export function SettingsPage({ onClose, onSettingsChange, onContentReload }: Set
                           }}
                         >
                           <SelectTrigger
-                            id="plex-sync-interval"
+                            id="epg-sync-interval"
                             className="border-white/20 bg-transparent text-white"
                           >
                             <SelectValue />
@@ -886,24 +732,22 @@ export function SettingsPage({ onClose, onSettingsChange, onContentReload }: Set
                             <SelectItem value="2">2 Days</SelectItem>
                             <SelectItem value="3">3 Days</SelectItem>
                             <SelectItem value="7">7 Days</SelectItem>
-                            <SelectItem value="14">14 Days</SelectItem>
-                            <SelectItem value="30">30 Days</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
 
                       {/* Sync Time */}
                       <div className="space-y-2">
-                        <Label htmlFor="plex-sync-time">Sync Time (24h)</Label>
+                        <Label htmlFor="epg-sync-time">Sync Time (24h)</Label>
                         <Input
-                          id="plex-sync-time"
+                          id="epg-sync-time"
                           type="time"
-                          value={settings.plexSyncTime}
-                          onChange={(e) => handlePlexTimeChange(e.target.value)}
+                          value={settings.epgSyncTime}
+                          onChange={(e) => handleEpgFieldChange("epgSyncTime", e.target.value)}
                           className="border-white/20 bg-transparent text-white"
                         />
                         <p className="text-xs text-white/50">
-                          Library sync will occur at this time each interval
+                          Guide refresh will occur at this time each interval
                         </p>
                       </div>
                     </div>
@@ -916,24 +760,28 @@ export function SettingsPage({ onClose, onSettingsChange, onContentReload }: Set
                       <div>
                         <p className="text-sm text-white/70">Last synced</p>
                         <p className="text-sm text-white/90 mt-0.5">
-                          {formatLastSync(settings.plexLastSync)}
+                          {formatLastSync(settings.epgLastSync)}
+                          {epgInfo && ` · ${epgInfo.channelCount} channels, ${epgInfo.programmeCount} programmes`}
                         </p>
                       </div>
                     </div>
                     <Button
-                      onClick={handleManualPlexSync}
-                      disabled={isPlexSyncing || !settings.plexUrl || !settings.plexToken}
+                      onClick={handleManualEpgSync}
+                      disabled={isEpgSyncing || !settings.epgUrl}
                       variant="outline"
                       className="border-[#E50914]/50 bg-[#E50914]/10 hover:bg-[#E50914]/20 text-white"
                     >
-                      <RefreshCw className={`h-4 w-4 mr-2 ${isPlexSyncing ? "animate-spin" : ""}`} />
-                      {isPlexSyncing ? "Syncing..." : "Sync Now"}
+                      <RefreshCw className={`h-4 w-4 mr-2 ${isEpgSyncing ? "animate-spin" : ""}`} />
+                      {isEpgSyncing ? "Syncing..." : "Sync Now"}
                     </Button>
                   </div>
                 </div>
               )}
             </section>
 
+            {/* Sync Activity */}
+            <SyncActivitySection />
+
             {/* TMDB Support */}
             <section className="p-6 border border-white/10 rounded-lg bg-white/5 space-y-6">
               <div className="flex items-center justify-between">
@@ -12,7 +12,43 @@ export interface ContentItem {
   episode: string | null;
   logo: string;
   url: string;
-  source: "IPTV" | "Plex";
+  source: "IPTV" | "Plex" | "Xtream" | "Jellyfin";
+  tvgId?: string; // EPG channel id from the playlist (tvg-id)
+  channelNumber?: number; // Channel number from the playlist (tvg-chno)
+  playlistId?: string; // IPTV playlist the item was loaded from
+  remoteId?: string; // Item id on the source server (Plex ratingKey)
+  remoteParentId?: string; // Show id on the source server, for episodes
+  library?: string; // Library title on the source server (Plex)
+  audioLanguages?: string[]; // Language codes of the audio streams
+  subtitleLanguages?: string[]; // Language codes of the subtitle streams
+  videoCodec?: string; // e.g. "h264", "hevc"
+  audioCodec?: string; // Codec of the primary audio stream, e.g. "aac"
+  bitrate?: number; // Overall bitrate in kbps
+  markers?: MediaMarker[]; // Intro and credits segments
+  drm?: DrmConfig; // Decryption keys for protected DASH streams
+  subtitles?: SubtitleSource[]; // Sidecar subtitle files on the source server
+}
+
+export interface SubtitleSource {
+  url: string;
+  language: string | null;
+  label: string;
+}
+
+/**
+ * ClearKey protection, from #KODIPROP lines in IPTV playlists
+ * Either the keys themselves or a license server that hands them out
+ */
+export interface DrmConfig {
+  type: "clearkey";
+  keys?: Record<string, string>; // Hex key id -> hex key
+  licenseUrl?: string;
+}
+
+export interface MediaMarker {
+  type: "intro" | "credits";
+  start: number; // Seconds
+  end: number; // Seconds
 }
 
 export interface YearFilter {
@@ -31,6 +67,8 @@ export interface ContentRowFilters {
   year?: YearFilter;
   season?: string;
   episode?: string;
+  playlist?: string[]; // IPTV playlist ids
+  library?: string[]; // Source library titles
 }
 
 export interface ContentRowConfig {
@@ -48,3 +86,14 @@ export interface WatchHistoryItem {
   lastWatched: number; // timestamp
   progress: number; // percentage (0-100)
 }
+
+/**
+ * Watch state reported by a media server, merged into the local watch history on sync
+ */
+export interface RemoteWatchState {
+  content: ContentItem;
+  currentTime: number; // Resume position in seconds, 0 when not in progress
+  duration: number; // Seconds
+  lastWatched: number; // timestamp
+  watched: boolean; // Played to the end at least once
+}
@@ -8,7 +8,11 @@ export interface IPTVCacheInfo {
   m3uCacheSize?: number;
   jsonCachePath?: string;
   m3uCachePath?: string;
+  storageSize?: number; // Browser cache: approximate size in bytes
+  driver?: string; // Browser cache: localforage driver id
+  driverName?: string; // Browser cache: human-readable storage type
   lastModified?: string;
+  lastSync?: string;
   error?: string;
 }
 
@@ -22,6 +26,21 @@ export interface IPTVDownloadResult {
   error?: string;
 }
 
+export interface IPTVFetchResult {
+  success: boolean;
+  text?: string; // Playlist as downloaded, converted in the renderer
+  m3uCacheSize?: number;
+  m3uCachePath?: string;
+  error?: string;
+}
+
+export interface IPTVSaveResult {
+  success: boolean;
+  jsonCacheSize?: number;
+  jsonCachePath?: string;
+  error?: string;
+}
+
 export interface IPTVLoadResult {
   success: boolean;
   data?: any[];
@@ -30,24 +49,52 @@ export interface IPTVLoadResult {
   error?: string;
 }
 
+export interface MpvPlayOptions {
+  start?: number; // Seconds to start from, for resuming
+}
+
+export interface MpvTrack {
+  id: number; // mpv track id, passed to setTrack
+  type: "video" | "audio" | "sub";
+  lang?: string; // As tagged in the file, e.g. "eng"
+  title?: string;
+  codec?: string;
+  selected: boolean;
+}
+
+// mpv properties the renderer can observe, with the value type of each
+export interface MpvProperties {
+  "time-pos": number | null; // null before playback starts
+  duration: number | null; // null for live streams
+  pause: boolean;
+  "track-list": MpvTrack[];
+}
+
 export interface ElectronAPI {
   platform: string;
   isElectron: boolean;
   mpv: {
     init: () => Promise<{ success: boolean; error?: string }>;
-    play: (url: string) => Promise<{ success: boolean; error?: string }>;
+    play: (url: string, options?: MpvPlayOptions) => Promise<{ success: boolean; error?: string }>;
     pause: (v: boolean) => Promise<{ success: boolean; error?: string }>;
     seek: (s: number, mode: string) => Promise<{ success: boolean; error?: string }>;
     volume: (v: number) => Promise<{ success: boolean; error?: string }>;
     stop: () => Promise<{ success: boolean; error?: string }>;
     kill: () => Promise<{ success: boolean; error?: string }>;
+    setTrack: (type: "audio" | "sub", id: number | null) => Promise<{ success: boolean; error?: string }>; // null turns the track off
+    // Calls back with the current value, then on every change; returns an unsubscribe function
+    observe: <K extends keyof MpvProperties>(name: K, callback: (value: MpvProperties[K]) => void) => () => void;
     onExit: (callback: () => void) => () => void;
   };
+  // Every IPTV cache is keyed by playlist id (see IPTVPlaylist in utils/settings.ts)
   iptv: {
-    downloadAndConvert: (url: string) => Promise<IPTVDownloadResult>;
-    loadCache: () => Promise<IPTVLoadResult>;
-    clearCache: () => Promise<{ success: boolean; error?: string }>;
-    getCacheInfo: () => Promise<IPTVCacheInfo>;
+    downloadAndConvert: (url: string, playlistId: string) => Promise<IPTVDownloadResult>;
+    // Builds without these convert in the main process through downloadAndConvert
+    download?: (url: string, playlistId: string) => Promise<IPTVFetchResult>;
+    saveCache?: (playlistId: string, items: any[]) => Promise<IPTVSaveResult>;
+    loadCache: (playlistId: string) => Promise<IPTVLoadResult>;
+    clearCache: (playlistId: string) => Promise<{ success: boolean; error?: string }>;
+    getCacheInfo: (playlistId: string) => Promise<IPTVCacheInfo>;
     onProgress: (callback: (message: string) => void) => () => void;
   };
 }
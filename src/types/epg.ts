@@ -0,0 +1,20 @@
+export interface EpgProgramme {
+  channelId: string;
+  start: number; // timestamp (ms)
+  stop: number; // timestamp (ms)
+  title: string;
+  description: string | null;
+  category: string | null;
+}
+
+export interface EpgChannel {
+  id: string;
+  names: string[]; // display-name entries from the guide
+  icon: string | null;
+}
+
+export interface NowNext {
+  now: EpgProgramme | null;
+  next: EpgProgramme | null;
+  progress: number; // percentage (0-100) of the current programme
+}
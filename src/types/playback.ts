@@ -0,0 +1,35 @@
+// Playback engines drive the <video> element for formats it can't play by itself
+
+export interface QualityLevel {
+  index: number; // Engine level index, passed back to setQuality
+  height: number | null;
+  bitrate: number; // bits per second
+  label: string; // e.g. "1080p"
+}
+
+export interface MediaTrack {
+  id: number; // Engine track id, passed back to setAudioTrack/setTextTrack
+  language: string | null; // As given by the stream, e.g. "en" or "tur"
+  label: string; // e.g. "English"
+}
+
+export interface PlaybackEngineCallbacks {
+  onQualityLevels?: (levels: QualityLevel[]) => void;
+  onQualitySwitched?: (index: number) => void; // Level now playing, also while on Auto
+  onLiveChange?: (isLive: boolean) => void;
+  onAudioTracks?: (tracks: MediaTrack[], selected: number | null) => void;
+  onTextTracks?: (tracks: MediaTrack[], selected: number | null) => void; // null when subtitles are off
+  onFatalError?: (message: string) => void; // Recovery failed; the engine is unusable
+}
+
+export interface PlaybackEngine {
+  name: string; // Shown in the player, e.g. "HLS"
+  setQuality: (index: number) => void; // AUTO_QUALITY for adaptive bitrate
+  seekToLiveEdge: () => void;
+  isBehindLiveEdge: () => boolean;
+  setAudioTrack?: (id: number) => void;
+  setTextTrack?: (id: number | null) => void; // null turns subtitles off
+  destroy: () => void;
+}
+
+export const AUTO_QUALITY = -1;
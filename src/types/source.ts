@@ -0,0 +1,70 @@
+import { ContentItem } from "./content";
+import { AppSettings } from "../utils/settings";
+
+type SettingKey<V> = { [K in keyof AppSettings]: AppSettings[K] extends V ? K : never }[keyof AppSettings];
+
+export interface SyncResult {
+  success: boolean;
+  message: string;
+  itemCount?: number;
+}
+
+export interface SyncOptions {
+  targetId?: string; // Which target to sync, for sources with several (see SyncTarget)
+  signal?: AbortSignal;
+  onProgress?: (message: string, percent?: number) => void; // percent (0-100) when the source can estimate it
+}
+
+export interface SourceSettingField {
+  key: SettingKey<string>;
+  label: string;
+  type: "url" | "text" | "password";
+  placeholder?: string;
+  description?: string;
+  helpLink?: { label: string; url: string }; // Appended to the description
+  monospace?: boolean;
+  required?: boolean; // Sync and test need a value (default: true)
+}
+
+export interface SourceSettingsSchema {
+  enabledKey: SettingKey<boolean>;
+  fields: SourceSettingField[];
+  // Schedule settings; omitted when the adapter schedules its own sync targets
+  schedule?: {
+    autoSyncKey: SettingKey<boolean>;
+    syncIntervalDaysKey: SettingKey<number>;
+    syncTimeKey: SettingKey<string>;
+    lastSyncKey: SettingKey<string | null>;
+  };
+}
+
+/**
+ * Something a source can sync on a schedule (the source itself, or one IPTV playlist)
+ */
+export interface SyncTarget {
+  id: string;
+  name: string;
+  autoSync: boolean;
+  syncIntervalDays: number;
+  syncTime: string; // HH:MM format (24h)
+  lastSync: string | null; // ISO date string
+}
+
+/**
+ * Contract every content source implements to plug into loading, auto-sync and Settings
+ */
+export interface SourceAdapter {
+  id: string;
+  displayName: string;
+  description: string;
+  settingsSchema: SourceSettingsSchema;
+  // Custom check that sync can run (defaults to the required settingsSchema fields having values)
+  isConfigured?: (settings: AppSettings) => boolean;
+  // Custom sync targets (defaults to a single target built from settingsSchema.schedule)
+  getSyncTargets?: (settings: AppSettings) => SyncTarget[];
+  // Resolves with a success message, throws when the connection fails
+  testConnection?: (settings: AppSettings) => Promise<string>;
+  sync: (settings: AppSettings, options?: SyncOptions) => Promise<SyncResult>;
+  loadCachedItems: () => Promise<ContentItem[] | null>;
+  clearCache: () => Promise<void>;
+}
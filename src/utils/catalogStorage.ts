@@ -0,0 +1,184 @@
+import { ContentItem } from "../types/content";
+
+/**
+ * Bump when the stored layout or ContentItem shape changes incompatibly
+ * Catalogs saved with another version are ignored until the next sync
+ */
+const CATALOG_SCHEMA_VERSION = 1;
+const CHUNK_SIZE = 2000; // Items per IndexedDB record
+const META_KEY = "catalog-meta";
+
+const CONTENT_TYPES = ["TV", "Series", "Movie", "Radio"];
+
+interface CatalogMeta {
+  schemaVersion: number;
+  generation: number; // Chunk key prefix, so a failed save keeps the previous catalog
+  chunkCount: number;
+  itemCount: number;
+  savedAt: string; // ISO date string
+}
+
+export interface CatalogStore {
+  save: (items: ContentItem[]) => Promise<void>;
+  load: () => Promise<ContentItem[] | null>;
+  clear: () => Promise<void>;
+}
+
+/**
+ * Catalog data saved before chunked storage, moved into the store on first load
+ * Both functions get the source's localforage instance, for data saved as a single record there
+ */
+export interface LegacyCatalog {
+  load: (store: any) => Promise<unknown>;
+  clear: (store: any) => Promise<void>;
+}
+
+// Dynamic import of localforage to avoid module resolution issues
+let localforage: any;
+
+/**
+ * Checks that a stored item has the fields the pages rely on
+ */
+export function isValidContentItem(item: any): item is ContentItem {
+  return (
+    typeof item === "object" &&
+    item !== null &&
+    typeof item.id === "number" &&
+    typeof item.name === "string" &&
+    typeof item.url === "string" &&
+    typeof item.source === "string" &&
+    CONTENT_TYPES.includes(item.type)
+  );
+}
+
+/**
+ * Keeps the valid items of stored data, logging how many were dropped
+ */
+function validateItems(data: unknown, label: string): ContentItem[] | null {
+  if (!Array.isArray(data)) return null;
+
+  const items = data.filter(isValidContentItem);
+  if (items.length < data.length) {
+    console.warn(`Dropped ${data.length - items.length} invalid ${label} items`);
+  }
+  return items;
+}
+
+const chunkKey = (generation: number, index: number) => `catalog-${generation}-${index}`;
+
+/**
+ * Creates an IndexedDB-backed catalog store for a content source
+ * Items are written in chunks so large libraries stay within per-record limits
+ */
+export function createCatalogStore(storeName: string, description: string, legacy?: LegacyCatalog): CatalogStore {
+  let store: any;
+
+  // Initialize localForage lazily
+  const getStore = async () => {
+    if (!store) {
+      if (!localforage) {
+        const module = await import('localforage');
+        localforage = (module as any).default || module;
+      }
+      store = localforage.createInstance({
+        name: 'kedi-tv',
+        storeName,
+        description
+      });
+    }
+    return store;
+  };
+
+  const removeChunks = async (generation: number, chunkCount: number) => {
+    const db = await getStore();
+    for (let i = 0; i < chunkCount; i++) {
+      await db.removeItem(chunkKey(generation, i));
+    }
+  };
+
+  const save = async (items: ContentItem[]) => {
+    const db = await getStore();
+    const previous: CatalogMeta | null = await db.getItem(META_KEY);
+    const generation = (previous?.generation ?? 0) + 1;
+    const chunkCount = Math.ceil(items.length / CHUNK_SIZE);
+
+    try {
+      for (let i = 0; i < chunkCount; i++) {
+        await db.setItem(chunkKey(generation, i), items.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE));
+      }
+    } catch (error) {
+      await removeChunks(generation, chunkCount).catch(() => undefined);
+      throw error;
+    }
+
+    // Switch to the new chunks only once they are all written
+    const meta: CatalogMeta = {
+      schemaVersion: CATALOG_SCHEMA_VERSION,
+      generation,
+      chunkCount,
+      itemCount: items.length,
+      savedAt: new Date().toISOString(),
+    };
+    await db.setItem(META_KEY, meta);
+
+    if (previous) {
+      await removeChunks(previous.generation, previous.chunkCount);
+    }
+  };
+
+  const migrateLegacy = async (): Promise<ContentItem[] | null> => {
+    if (!legacy) return null;
+
+    const db = await getStore();
+    const items = validateItems(await legacy.load(db), storeName);
+    if (!items) return null;
+
+    await save(items);
+    await legacy.clear(db);
+    console.log(`Migrated ${items.length} ${storeName} items to chunked storage`);
+    return items;
+  };
+
+  const load = async () => {
+    try {
+      const db = await getStore();
+      const meta: CatalogMeta | null = await db.getItem(META_KEY);
+
+      if (!meta) {
+        return await migrateLegacy();
+      }
+
+      if (meta.schemaVersion !== CATALOG_SCHEMA_VERSION) {
+        console.warn(`Ignoring ${storeName} catalog saved with schema version ${meta.schemaVersion}, sync again to update it`);
+        return null;
+      }
+
+      const data: unknown[] = [];
+      for (let i = 0; i < meta.chunkCount; i++) {
+        const chunk = await db.getItem(chunkKey(meta.generation, i));
+        if (!Array.isArray(chunk)) {
+          console.error(`Missing ${storeName} catalog chunk ${i + 1}/${meta.chunkCount}`);
+          return null;
+        }
+        data.push(...chunk);
+      }
+
+      return validateItems(data, storeName);
+    } catch (error) {
+      console.error(`Failed to load ${storeName} catalog:`, error);
+      return null;
+    }
+  };
+
+  const clear = async () => {
+    try {
+      const db = await getStore();
+      await db.clear();
+      await legacy?.clear(db);
+    } catch (error) {
+      console.error(`Failed to clear ${storeName} catalog:`, error);
+    }
+  };
+
+  return { save, load, clear };
+}
@@ -155,6 +155,20 @@ export function filterContent(items: ContentItem[], filters: ContentRowFilters):
       return false;
     }
 
+    // Playlist filter (multi-select) - only IPTV items carry a playlist id
+    if (filters.playlist && filters.playlist.length > 0) {
+      if (!item.playlistId || !filters.playlist.includes(item.playlistId)) {
+        return false;
+      }
+    }
+
+    // Library filter (multi-select) - only Plex items carry a library title
+    if (filters.library && filters.library.length > 0) {
+      if (!item.library || !filters.library.includes(item.library)) {
+        return false;
+      }
+    }
+
     return true;
   });
 }
@@ -192,6 +206,39 @@ export function applyLiveTVFilters(items: ContentItem[], filters: LiveTVFilters)
   });
 }
 
+/**
+ * Filters channels by search term and first letter (Turkish locale aware)
+ */
+export function applyNameFilters(items: ContentItem[], searchTerm: string, selectedLetter: string | null): ContentItem[] {
+  let result = items;
+
+  // Apply search filter (fuzzy contains search, Turkish locale aware)
+  if (searchTerm.trim() !== "") {
+    const searchLower = searchTerm.toLocaleLowerCase("tr-TR");
+    result = result.filter(item => {
+      const nameLower = item.name?.toLocaleLowerCase("tr-TR") || "";
+      return nameLower.includes(searchLower);
+    });
+  }
+
+  // Apply letter filter
+  if (selectedLetter) {
+    if (selectedLetter === "0-9") {
+      result = result.filter(item => {
+        const firstChar = item.name?.charAt(0);
+        return /[0-9]/.test(firstChar || "");
+      });
+    } else {
+      result = result.filter(item => {
+        const firstChar = item.name?.charAt(0).toLocaleUpperCase("tr-TR") || "";
+        return firstChar === selectedLetter;
+      });
+    }
+  }
+
+  return result;
+}
+
 export function applyRadioFilters(items: ContentItem[], filters: RadioFilters): ContentItem[] {
   return items.filter(item => {
     // Category filter - case-insensitive comparison
@@ -0,0 +1,88 @@
+import { useSyncExternalStore } from "react";
+import { ContentItem } from "../types/content";
+import {
+  clearCache,
+  getAllContent,
+  getMovies,
+  getSeries,
+  getTVChannels,
+  getRadioStations,
+  getTrending
+} from "./dataLoader";
+
+/**
+ * Catalog lists shown by the pages, derived from dataLoader
+ */
+export interface ContentSnapshot {
+  allContent: ContentItem[];
+  trendingContent: ContentItem[];
+  movies: ContentItem[];
+  series: ContentItem[];
+  tvChannels: ContentItem[];
+  radioStations: ContentItem[];
+  isLoaded: boolean;
+}
+
+const EMPTY_SNAPSHOT: ContentSnapshot = {
+  allContent: [],
+  trendingContent: [],
+  movies: [],
+  series: [],
+  tvChannels: [],
+  radioStations: [],
+  isLoaded: false,
+};
+
+let snapshot: ContentSnapshot = EMPTY_SNAPSHOT;
+let loadGeneration = 0;
+const listeners = new Set<() => void>();
+
+export function getContentSnapshot(): ContentSnapshot {
+  return snapshot;
+}
+
+/**
+ * Subscribes to catalog changes; returns an unsubscribe function
+ */
+export function subscribeContent(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Reloads the catalog from the source caches and notifies subscribers
+ * Call after a sync or a source settings change; only the latest call is applied
+ */
+export async function refreshContent(): Promise<void> {
+  const generation = ++loadGeneration;
+  clearCache();
+
+  try {
+    // Load once; the lists below read the dataLoader cache
+    const allContent = await getAllContent();
+    const [trendingContent, movies, series, tvChannels, radioStations] = await Promise.all([
+      getTrending(),
+      getMovies(),
+      getSeries(),
+      getTVChannels(),
+      getRadioStations(),
+    ]);
+
+    // A newer refresh started while this one was loading
+    if (generation !== loadGeneration) return;
+
+    snapshot = { allContent, trendingContent, movies, series, tvChannels, radioStations, isLoaded: true };
+    listeners.forEach((listener) => listener());
+  } catch (error) {
+    console.error("Failed to load content:", error);
+  }
+}
+
+/**
+ * Current catalog; re-renders the component when it changes
+ */
+export function useContentStore(): ContentSnapshot {
+  return useSyncExternalStore(subscribeContent, getContentSnapshot);
+}
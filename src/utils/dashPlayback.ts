@@ -0,0 +1,154 @@
+import { MediaInfo, MediaPlayer, ProtectionDataSet, Representation, supportsMediaSource } from "dashjs";
+import { DrmConfig } from "../types/content";
+import { MediaTrack, PlaybackEngine, PlaybackEngineCallbacks, QualityLevel } from "../types/playback";
+import { getTrackLabel } from "./trackSelection";
+
+const LIVE_EDGE_TOLERANCE = 10; // Seconds behind the target live delay before offering "Go Live"
+
+/**
+ * Checks if dash.js can run here (it needs Media Source Extensions)
+ */
+export function isDashEngineSupported(): boolean {
+  return supportsMediaSource();
+}
+
+const toQualityLevel = (representation: Representation, index: number): QualityLevel => ({
+  index,
+  height: representation.height || null,
+  bitrate: representation.bandwidth,
+  label: representation.height
+    ? `${representation.height}p`
+    : `${Math.round(representation.bandwidth / 1000)} kbps`,
+});
+
+const toMediaTrack = (info: MediaInfo, index: number): MediaTrack => ({
+  id: index,
+  language: info.lang,
+  label: getTrackLabel(info.lang, info.labels[0]?.text, index),
+});
+
+// ClearKey ids and keys are hex in playlists and base64url in EME
+const hexToBase64Url = (hex: string) =>
+  btoa(String.fromCharCode(...(hex.match(/../g) || []).map((byte) => parseInt(byte, 16))))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const toProtectionData = (drm: DrmConfig): ProtectionDataSet => {
+  if (drm.licenseUrl) {
+    return { "org.w3.clearkey": { serverURL: drm.licenseUrl } };
+  }
+
+  const clearkeys: Record<string, string> = {};
+  for (const [kid, key] of Object.entries(drm.keys || {})) {
+    clearkeys[hexToBase64Url(kid)] = hexToBase64Url(key);
+  }
+  return { "org.w3.clearkey": { clearkeys } };
+};
+
+/**
+ * Plays a DASH manifest in the video element with dash.js
+ * dash.js retries failed downloads itself, so its ERROR events are treated as fatal
+ */
+export function createDashEngine(
+  video: HTMLVideoElement,
+  url: string,
+  drm: DrmConfig | undefined,
+  callbacks: PlaybackEngineCallbacks = {}
+): PlaybackEngine {
+  const player = MediaPlayer().create();
+  let destroyed = false;
+
+  player.updateSettings({
+    streaming: {
+      delay: { liveDelayFragmentCount: 3 }, // Play three segments behind the live edge
+      liveCatchup: { enabled: true }, // Catch up by playing faster when drifting behind
+      text: { defaultEnabled: false }, // The player turns subtitles on from the language preferences
+    },
+  });
+
+  if (drm) {
+    player.setProtectionData(toProtectionData(drm));
+  }
+
+  const getVideoRepresentations = () => player.getRepresentationsByType("video");
+
+  const reportTracks = () => {
+    const audioTracks = player.getTracksFor("audio");
+    const currentAudio = player.getCurrentTrackFor("audio");
+    callbacks.onAudioTracks?.(
+      audioTracks.map(toMediaTrack),
+      currentAudio ? audioTracks.indexOf(currentAudio) : null
+    );
+
+    const textIndex = player.isTextEnabled() ? player.getCurrentTextTrackIndex() : -1;
+    callbacks.onTextTracks?.(player.getTracksFor("text").map(toMediaTrack), textIndex >= 0 ? textIndex : null);
+  };
+
+  player.on(MediaPlayer.events.STREAM_INITIALIZED, () => {
+    callbacks.onQualityLevels?.(getVideoRepresentations().map(toQualityLevel));
+    callbacks.onLiveChange?.(player.isDynamic());
+    reportTracks();
+  });
+
+  player.on(MediaPlayer.events.QUALITY_CHANGE_RENDERED, (event) => {
+    if (event.mediaType !== "video") return;
+    const index = getVideoRepresentations().findIndex((representation) => representation.id === event.newRepresentation.id);
+    if (index >= 0) {
+      callbacks.onQualitySwitched?.(index);
+    }
+  });
+
+  player.on(MediaPlayer.events.TRACK_CHANGE_RENDERED, (event) => {
+    if (event.mediaType === "audio" || event.mediaType === "text") {
+      reportTracks();
+    }
+  });
+
+  player.on(MediaPlayer.events.ERROR, (event) => {
+    if (destroyed) return;
+    const message = "error" in event && typeof event.error === "object" && event.error?.message
+      ? event.error.message
+      : "DASH playback failed";
+    console.error("[DASH] Fatal error:", event);
+    engine.destroy();
+    callbacks.onFatalError?.(message);
+  });
+
+  player.initialize(video, url, false);
+
+  const engine: PlaybackEngine = {
+    name: "DASH",
+    setQuality: (index) => {
+      const autoSwitch = index < 0;
+      player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: autoSwitch } } } });
+      if (!autoSwitch) {
+        player.setRepresentationForTypeByIndex("video", index, true);
+      }
+    },
+    seekToLiveEdge: () => {
+      player.seekToOriginalLive();
+    },
+    isBehindLiveEdge: () => {
+      if (!player.isDynamic()) return false;
+      return player.getDvrWindow().end - video.currentTime > player.getTargetLiveDelay() + LIVE_EDGE_TOLERANCE;
+    },
+    setAudioTrack: (id) => {
+      const track = player.getTracksFor("audio")[id];
+      if (track) {
+        player.setCurrentTrack(track);
+      }
+    },
+    setTextTrack: (id) => {
+      player.enableText(id !== null);
+      player.setTextTrack(id ?? -1);
+      reportTracks();
+    },
+    destroy: () => {
+      destroyed = true;
+      player.destroy();
+    },
+  };
+
+  return engine;
+}
@@ -2,16 +2,14 @@
 import { ContentItem } from "../types/content";
 import { contentData } from "../data/contentData";
 import { sortByNameTurkish } from "./turkishSort";
-import { loadIPTVDataAsync } from "./iptvSync";
-import { loadPlexData } from "./plexSync";
-import { loadSettings } from "./settings";
+import { loadEnabledSourceItems } from "./sourceRegistry";
 
 let cachedData: ContentItem[] | null = null;
 
 /**
  * Load content data with caching
  * Handles large files efficiently with single load and memory caching
- * Combines IPTV and Plex data if enabled, then falls back to static data
+ * Combines the data of all enabled sources (see sourceRegistry), then falls back to static data
  * 
  * NOTE: When you have your real JSON file (30MB+), replace the import in
  * /data/contentData.ts with your actual data. The file supports lazy loading
@@ -23,26 +21,9 @@ export async function loadContentData(): Promise<ContentItem[]> {
     return cachedData;
   }
 
-  const settings = loadSettings();
-  const combinedData: ContentItem[] = [];
+  const combinedData = await loadEnabledSourceItems();
 
-  // Load IPTV data if enabled (now async from Electron cache)
-  if (settings.iptvEnabled) {
-    const iptvData = await loadIPTVDataAsync();
-    if (iptvData && iptvData.length > 0) {
-      combinedData.push(...iptvData);
-    }
-  }
-
-  // Load Plex data if enabled
-  if (settings.plexEnabled) {
-    const plexData = loadPlexData();
-    if (plexData && plexData.length > 0) {
-      combinedData.push(...plexData);
-    }
-  }
-
-  // If we have data from IPTV or Plex, use that
+  // If we have data from any registered source, use that
   if (combinedData.length > 0) {
     cachedData = combinedData;
     return cachedData;
@@ -0,0 +1,375 @@
+/**
+ * XMLTV Electronic Programme Guide
+ *
+ * Downloads or imports an XMLTV guide (plain or gzipped) and stores the
+ * programmes in IndexedDB, one entry per channel id.
+ * Features:
+ * - Channel matching by tvg-id, then by normalized display name
+ * - Now / Next lookup with progress for live channels
+ * - Auto-sync on the same interval + time schedule as IPTV playlists
+ */
+
+import { ContentItem } from "../types/content";
+import { EpgChannel, EpgProgramme, NowNext } from "../types/epg";
+import { SyncResult, SyncTarget } from "../types/source";
+import { AppSettings, loadSettings, saveSettings } from "./settings";
+
+interface EpgStoreMeta {
+  channelCount: number;
+  programmeCount: number;
+  lastModified: string;
+}
+
+const CHANNELS_KEY = "epg-channels";
+const META_KEY = "epg-meta";
+const PROGRAMMES_PREFIX = "epg-programmes-";
+const ONE_HOUR = 60 * 60 * 1000;
+const WRITE_BATCH_SIZE = 200;
+
+// Dynamic import of localforage to avoid module resolution issues
+let localforage: any;
+let epgStore: any;
+
+// In-memory caches, reset whenever a new guide is stored
+let channelIndex: { byId: Map<string, string>; byName: Map<string, string> } | null = null;
+const programmeCache = new Map<string, EpgProgramme[]>();
+
+// Initialize localForage lazily
+async function getStore() {
+  if (!epgStore) {
+    if (!localforage) {
+      const module = await import('localforage');
+      localforage = (module as any).default || module;
+    }
+    epgStore = localforage.createInstance({
+      name: 'kedi-tv',
+      storeName: 'epg',
+      description: 'XMLTV programme guide for Kedi TV'
+    });
+  }
+  return epgStore;
+}
+
+/**
+ * Normalizes a channel name for matching: lowercase, no accents, no quality tags, alphanumerics only
+ */
+export function normalizeChannelName(name: string): string {
+  return name
+    .toLocaleLowerCase("tr-TR")
+    .replace(/ı/g, "i")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/^\s*(?:\[[a-z]{2,3}\]|[a-z]{2,3}\s*[:|])/, "") // Country prefix ("TR:", "[UK]")
+    .replace(/\b(uhd|fhd|hd|sd|4k|hevc|h265|raw)\b/g, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Parses an XMLTV timestamp ("20240101120000 +0300") into milliseconds
+ */
+function parseXmltvDate(value: string | null): number | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?\s*([+-]\d{4})?/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds = "00", offset] = match;
+  const utc = Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds);
+
+  if (!offset) return utc;
+  const sign = offset[0] === "-" ? -1 : 1;
+  const offsetMinutes = parseInt(offset.substring(1, 3)) * 60 + parseInt(offset.substring(3, 5));
+  return utc - sign * offsetMinutes * 60 * 1000;
+}
+
+function childText(element: Element, tagName: string): string | null {
+  const child = element.getElementsByTagName(tagName)[0];
+  return child?.textContent?.trim() || null;
+}
+
+/**
+ * Parses an XMLTV document into channels and programmes
+ * Programmes that ended more than an hour ago are dropped
+ */
+export function parseXmltv(xml: string): { channels: EpgChannel[]; programmes: EpgProgramme[] } {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Invalid XMLTV file");
+  }
+
+  const channels: EpgChannel[] = Array.from(doc.getElementsByTagName("channel")).map((element) => ({
+    id: element.getAttribute("id") || "",
+    names: Array.from(element.getElementsByTagName("display-name"))
+      .map((name) => name.textContent?.trim() || "")
+      .filter(Boolean),
+    icon: element.getElementsByTagName("icon")[0]?.getAttribute("src") || null,
+  })).filter((channel) => channel.id);
+
+  const cutoff = Date.now() - ONE_HOUR;
+  const programmes: EpgProgramme[] = [];
+
+  for (const element of Array.from(doc.getElementsByTagName("programme"))) {
+    const start = parseXmltvDate(element.getAttribute("start"));
+    const stop = parseXmltvDate(element.getAttribute("stop"));
+    const channelId = element.getAttribute("channel");
+    if (start === null || stop === null || !channelId || stop < cutoff) continue;
+
+    programmes.push({
+      channelId,
+      start,
+      stop,
+      title: childText(element, "title") || "Untitled",
+      description: childText(element, "desc"),
+      category: childText(element, "category"),
+    });
+  }
+
+  return { channels, programmes };
+}
+
+/**
+ * Decodes raw guide bytes to text, inflating gzip when the magic bytes are present
+ */
+async function decodeGuide(buffer: ArrayBuffer): Promise<string> {
+  const bytes = new Uint8Array(buffer);
+  const isGzip = bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+  if (!isGzip) {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return await new Response(stream).text();
+}
+
+/**
+ * Stores a parsed guide, replacing the previous one
+ */
+async function saveGuide(channels: EpgChannel[], programmes: EpgProgramme[]): Promise<void> {
+  const store = await getStore();
+  await store.clear();
+
+  // Group programmes by channel, sorted by start time
+  const byChannel = new Map<string, EpgProgramme[]>();
+  for (const programme of programmes) {
+    if (!byChannel.has(programme.channelId)) {
+      byChannel.set(programme.channelId, []);
+    }
+    byChannel.get(programme.channelId)!.push(programme);
+  }
+
+  const entries = Array.from(byChannel.entries());
+  for (let i = 0; i < entries.length; i += WRITE_BATCH_SIZE) {
+    await Promise.all(
+      entries.slice(i, i + WRITE_BATCH_SIZE).map(([channelId, list]) =>
+        store.setItem(PROGRAMMES_PREFIX + channelId, list.sort((a, b) => a.start - b.start))
+      )
+    );
+  }
+
+  const meta: EpgStoreMeta = {
+    channelCount: channels.length,
+    programmeCount: programmes.length,
+    lastModified: new Date().toISOString(),
+  };
+  await store.setItem(CHANNELS_KEY, channels);
+  await store.setItem(META_KEY, meta);
+
+  channelIndex = null;
+  programmeCache.clear();
+}
+
+/**
+ * Parses and stores guide bytes, then records the sync time
+ */
+async function ingestGuide(buffer: ArrayBuffer, onProgress?: (message: string) => void): Promise<SyncResult> {
+  onProgress?.("Parsing programme guide...");
+  const xml = await decodeGuide(buffer);
+  const { channels, programmes } = parseXmltv(xml);
+
+  onProgress?.(`Saving ${programmes.length} programmes for ${channels.length} channels...`);
+  await saveGuide(channels, programmes);
+
+  // Update last sync time
+  const settings = loadSettings();
+  settings.epgLastSync = new Date().toISOString();
+  saveSettings(settings);
+
+  return {
+    success: true,
+    message: "Programme guide updated successfully",
+    itemCount: programmes.length,
+  };
+}
+
+/**
+ * Downloads an XMLTV guide (.xml or .xml.gz) and stores it
+ */
+export async function syncEpgData(
+  url: string,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<SyncResult> {
+  try {
+    onProgress?.("Downloading programme guide...");
+    const response = await fetch(url, { signal });
+
+    if (!response.ok) {
+      throw new Error(`Failed to download guide: ${response.status} ${response.statusText}`);
+    }
+
+    const buffer = await response.arrayBuffer();
+    signal?.throwIfAborted();
+    return await ingestGuide(buffer, onProgress);
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Imports an XMLTV guide from a local file (.xml or .xml.gz)
+ */
+export async function importEpgFile(file: File, onProgress?: (message: string) => void): Promise<SyncResult> {
+  try {
+    return await ingestGuide(await file.arrayBuffer(), onProgress);
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Clears the stored guide
+ */
+export async function clearEpgData(): Promise<void> {
+  try {
+    const store = await getStore();
+    await store.clear();
+    channelIndex = null;
+    programmeCache.clear();
+  } catch (error) {
+    console.error("Failed to clear EPG data:", error);
+  }
+}
+
+/**
+ * Builds the lookup tables used to match content items to guide channels
+ */
+async function getChannelIndex() {
+  if (!channelIndex) {
+    const store = await getStore();
+    const channels: EpgChannel[] = (await store.getItem(CHANNELS_KEY)) || [];
+    const byId = new Map<string, string>();
+    const byName = new Map<string, string>();
+
+    for (const channel of channels) {
+      byId.set(channel.id.toLowerCase(), channel.id);
+      for (const name of [channel.id, ...channel.names]) {
+        const normalized = normalizeChannelName(name);
+        if (normalized && !byName.has(normalized)) {
+          byName.set(normalized, channel.id);
+        }
+      }
+    }
+
+    channelIndex = { byId, byName };
+  }
+  return channelIndex;
+}
+
+/**
+ * Finds the guide channel id for a content item (tvg-id first, then normalized name)
+ */
+export async function matchEpgChannel(item: ContentItem): Promise<string | null> {
+  const { byId, byName } = await getChannelIndex();
+
+  if (item.tvgId) {
+    const match = byId.get(item.tvgId.toLowerCase());
+    if (match) return match;
+  }
+
+  return byName.get(normalizeChannelName(item.name)) || null;
+}
+
+/**
+ * Gets all stored programmes for a content item
+ */
+export async function getProgrammes(item: ContentItem): Promise<EpgProgramme[]> {
+  const settings = loadSettings();
+  if (!settings.epgEnabled) return [];
+  return getStoredProgrammes(item);
+}
+
+/**
+ * Reads the programmes of an item's guide channel, whether or not the guide is enabled
+ */
+async function getStoredProgrammes(item: ContentItem): Promise<EpgProgramme[]> {
+  try {
+    const channelId = await matchEpgChannel(item);
+    if (!channelId) return [];
+
+    if (!programmeCache.has(channelId)) {
+      const store = await getStore();
+      programmeCache.set(channelId, (await store.getItem(PROGRAMMES_PREFIX + channelId)) || []);
+    }
+    return programmeCache.get(channelId)!;
+  } catch (error) {
+    console.error("Failed to load EPG programmes:", error);
+    return [];
+  }
+}
+
+/**
+ * Gets the current and next programme for a content item
+ * Callers check settings.epgEnabled, so channel grids read the settings once rather than per card
+ */
+export async function getNowNext(item: ContentItem, at: number = Date.now()): Promise<NowNext | null> {
+  const programmes = await getStoredProgrammes(item);
+  if (programmes.length === 0) return null;
+
+  const nowIndex = programmes.findIndex((p) => p.start <= at && p.stop > at);
+  const now = nowIndex >= 0 ? programmes[nowIndex] : null;
+  const next = nowIndex >= 0
+    ? programmes[nowIndex + 1] || null
+    : programmes.find((p) => p.start > at) || null;
+
+  if (!now && !next) return null;
+
+  const progress = now ? Math.min(100, Math.max(0, ((at - now.start) / (now.stop - now.start)) * 100)) : 0;
+  return { now, next, progress };
+}
+
+/**
+ * Gets stored guide statistics
+ */
+export async function getEpgInfo(): Promise<EpgStoreMeta | null> {
+  try {
+    const store = await getStore();
+    return await store.getItem(META_KEY);
+  } catch (error) {
+    console.error("Failed to get EPG info:", error);
+    return null;
+  }
+}
+
+/**
+ * Gets the guide refresh schedule, or null when the guide is disabled or has no URL
+ */
+export function getEpgSyncTarget(settings: AppSettings): SyncTarget | null {
+  if (!settings.epgEnabled || !settings.epgUrl) {
+    return null;
+  }
+
+  return {
+    id: "epg",
+    name: "TV Guide",
+    autoSync: settings.epgAutoSync,
+    syncIntervalDays: settings.epgSyncIntervalDays,
+    syncTime: settings.epgSyncTime,
+    lastSync: settings.epgLastSync,
+  };
+}
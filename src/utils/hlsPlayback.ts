@@ -0,0 +1,143 @@
+import Hls, { Level, MediaPlaylist } from "hls.js";
+import { MediaTrack, PlaybackEngine, PlaybackEngineCallbacks, QualityLevel } from "../types/playback";
+import { getTrackLabel } from "./trackSelection";
+
+const MAX_NETWORK_RETRIES = 3;
+const NETWORK_RETRY_DELAY = 2000; // Milliseconds, multiplied by the attempt number
+const MAX_MEDIA_RECOVERIES = 2; // Second attempt also swaps the audio codec
+const LIVE_EDGE_TOLERANCE = 10; // Seconds behind the live sync position before offering "Go Live"
+
+/**
+ * Checks if hls.js can run here (it needs Media Source Extensions)
+ */
+export function isHlsEngineSupported(): boolean {
+  return Hls.isSupported();
+}
+
+const toQualityLevel = (level: Level, index: number): QualityLevel => ({
+  index,
+  height: level.height || null,
+  bitrate: level.bitrate,
+  label: level.height ? `${level.height}p` : `${Math.round(level.bitrate / 1000)} kbps`,
+});
+
+const toMediaTrack = (track: MediaPlaylist, index: number): MediaTrack => ({
+  id: index,
+  language: track.lang || null,
+  label: getTrackLabel(track.lang, track.name, index),
+});
+
+/**
+ * Plays an HLS stream in the video element with hls.js
+ * Network errors are retried and media errors recovered before onFatalError is called
+ */
+export function createHlsEngine(
+  video: HTMLVideoElement,
+  url: string,
+  callbacks: PlaybackEngineCallbacks = {}
+): PlaybackEngine {
+  const hls = new Hls({
+    liveSyncDurationCount: 3, // Play three segments behind the live edge
+    liveMaxLatencyDurationCount: 10, // Jump forward when drifting further behind
+    maxLiveSyncPlaybackRate: 1.5, // Catch up by playing faster before jumping
+  });
+
+  hls.subtitleDisplay = false; // The player turns subtitles on from the language preferences
+
+  let networkRetries = 0;
+  let mediaRecoveries = 0;
+  let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+    callbacks.onQualityLevels?.(data.levels.map(toQualityLevel));
+  });
+
+  hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+    callbacks.onQualitySwitched?.(data.level);
+  });
+
+  const reportAudioTracks = () => {
+    callbacks.onAudioTracks?.(hls.audioTracks.map(toMediaTrack), hls.audioTrack >= 0 ? hls.audioTrack : null);
+  };
+
+  const reportTextTracks = () => {
+    const selected = hls.subtitleDisplay && hls.subtitleTrack >= 0 ? hls.subtitleTrack : null;
+    callbacks.onTextTracks?.(hls.subtitleTracks.map(toMediaTrack), selected);
+  };
+
+  hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, reportAudioTracks);
+  hls.on(Hls.Events.AUDIO_TRACK_SWITCHED, reportAudioTracks);
+  hls.on(Hls.Events.SUBTITLE_TRACKS_UPDATED, reportTextTracks);
+  hls.on(Hls.Events.SUBTITLE_TRACK_SWITCH, reportTextTracks);
+
+  hls.on(Hls.Events.LEVEL_LOADED, (_event, data) => {
+    networkRetries = 0;
+    callbacks.onLiveChange?.(data.details.live);
+  });
+
+  hls.on(Hls.Events.FRAG_BUFFERED, () => {
+    mediaRecoveries = 0;
+  });
+
+  hls.on(Hls.Events.ERROR, (_event, data) => {
+    if (!data.fatal) return;
+
+    if (data.type === Hls.ErrorTypes.NETWORK_ERROR && networkRetries < MAX_NETWORK_RETRIES) {
+      networkRetries++;
+      console.warn(`[HLS] Network error (${data.details}), retry ${networkRetries}/${MAX_NETWORK_RETRIES}`);
+      retryTimeout = setTimeout(() => {
+        // Without a manifest there is nothing to resume, so load it again
+        if (hls.levels.length === 0) {
+          hls.loadSource(url);
+        } else {
+          hls.startLoad();
+        }
+      }, NETWORK_RETRY_DELAY * networkRetries);
+      return;
+    }
+
+    if (data.type === Hls.ErrorTypes.MEDIA_ERROR && mediaRecoveries < MAX_MEDIA_RECOVERIES) {
+      mediaRecoveries++;
+      console.warn(`[HLS] Media error (${data.details}), recovering`);
+      if (mediaRecoveries === MAX_MEDIA_RECOVERIES) {
+        hls.swapAudioCodec();
+      }
+      hls.recoverMediaError();
+      return;
+    }
+
+    console.error("[HLS] Fatal error:", data.details, data.error);
+    clearTimeout(retryTimeout);
+    hls.destroy();
+    callbacks.onFatalError?.(data.details);
+  });
+
+  hls.loadSource(url);
+  hls.attachMedia(video);
+
+  return {
+    name: "HLS",
+    setQuality: (index) => {
+      hls.currentLevel = index;
+    },
+    seekToLiveEdge: () => {
+      if (hls.liveSyncPosition !== null) {
+        video.currentTime = hls.liveSyncPosition;
+      }
+    },
+    isBehindLiveEdge: () =>
+      hls.liveSyncPosition !== null && hls.liveSyncPosition - video.currentTime > LIVE_EDGE_TOLERANCE,
+    setAudioTrack: (id) => {
+      hls.audioTrack = id;
+    },
+    setTextTrack: (id) => {
+      hls.subtitleDisplay = id !== null;
+      hls.subtitleTrack = id ?? -1;
+      reportTextTracks();
+    },
+    destroy: () => {
+      clearTimeout(retryTimeout);
+      hls.destroy();
+    },
+  };
+}
@@ -1,134 +1,322 @@
 /// <reference path="../types/electron.d.ts" />
 import { ContentItem } from "../types/content";
-import { loadSettings, saveSettings } from "./settings";
+import { IPTVCacheInfo } from "../types/electron";
+import { SourceAdapter, SyncResult } from "../types/source";
+import { loadSettings, saveSettings, IPTVPlaylist } from "./settings";
 import { clearCache } from "./dataLoader";
+import { parseM3U, isM3U } from "./m3uParser";
 
-export interface SyncResult {
-  success: boolean;
-  message: string;
-  itemCount?: number;
+interface IPTVStoreMeta {
+  itemCount: number;
+  storageSize: number;
+  lastModified: string;
+}
+
+const IPTV_DATA_PREFIX = "iptv-data-";
+const IPTV_META_PREFIX = "iptv-meta-";
+const IPTV_ID_OFFSET = 1000000000000; // Below the Xtream and Plex ranges
+const IPTV_PLAYLIST_ID_RANGE = 1000000000; // Ids of each playlist, by its idSlot
+
+// First id of a playlist's range, stable when other playlists are added, removed or disabled
+const getPlaylistIdOffset = (playlist: IPTVPlaylist) => IPTV_ID_OFFSET + playlist.idSlot * IPTV_PLAYLIST_ID_RANGE;
+
+// Dynamic import of localforage to avoid module resolution issues
+let localforage: any;
+let iptvStore: any;
+
+// Initialize localForage lazily
+async function getStore() {
+  if (!iptvStore) {
+    if (!localforage) {
+      const module = await import('localforage');
+      localforage = (module as any).default || module;
+    }
+    iptvStore = localforage.createInstance({
+      name: 'kedi-tv',
+      storeName: 'iptv',
+      description: 'IPTV playlist cache for Kedi TV'
+    });
+  }
+  return iptvStore;
 }
 
 /**
- * Fetches and converts IPTV M3U data using Electron's file caching system
+ * Converts a downloaded playlist (M3U or JSON) to ContentItem[]
  */
-export async function syncIPTVData(url: string, onProgress?: (message: string) => void): Promise<SyncResult> {
-  if (!window.electron?.isElectron) {
-    return {
-      success: false,
-      message: "IPTV sync is only available in Electron app",
-    };
+function convertPlaylist(text: string): ContentItem[] {
+  if (isM3U(text)) {
+    return parseM3U(text);
   }
 
+  // Pre-converted JSON playlists are accepted as-is
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error("Unsupported playlist format: expected M3U or a JSON array");
+  }
+  return data as ContentItem[];
+}
+
+/**
+ * Downloads a playlist in the renderer
+ */
+async function downloadPlaylistInBrowser(playlist: IPTVPlaylist, signal?: AbortSignal): Promise<string> {
+  const response = await fetch(playlist.url, { signal });
+
+  if (!response.ok) {
+    throw new Error(`Failed to download playlist: ${response.status} ${response.statusText}`);
+  }
+
+  return response.text();
+}
+
+/**
+ * Relays the main process's download progress while a playlist syncs in Electron
+ * Returns a cleanup function
+ */
+function listenToElectronProgress(playlist: IPTVPlaylist, onProgress?: (message: string) => void): () => void {
+  return onProgress
+    ? window.electron!.iptv.onProgress((message) => onProgress(`${playlist.name}: ${message}`))
+    : () => {};
+}
+
+/**
+ * Checks if the playlist can be converted in the renderer
+ * Electron builds without the download and saveCache channels convert in the main process
+ */
+function canConvertInRenderer(): boolean {
+  const iptv = window.electron?.isElectron ? window.electron.iptv : null;
+  return !iptv || (!!iptv.download && !!iptv.saveCache);
+}
+
+/**
+ * Downloads a playlist through Electron's main process, which also keeps the raw file
+ * The main process download finishes even when cancelled
+ */
+async function downloadPlaylistInElectron(playlist: IPTVPlaylist, onProgress?: (message: string) => void): Promise<string> {
+  const cleanupProgress = listenToElectronProgress(playlist, onProgress);
+
   try {
-    // Set up progress listener
-    let cleanupProgress: (() => void) | null = null;
-    if (onProgress) {
-      cleanupProgress = window.electron.iptv.onProgress(onProgress);
+    const result = await window.electron!.iptv.download!(playlist.url, playlist.id);
+    if (!result.success || result.text === undefined) {
+      throw new Error(result.error || "Failed to download playlist");
     }
+    return result.text;
+  } finally {
+    cleanupProgress();
+  }
+}
 
-    onProgress?.("Starting IPTV sync...");
-
-    // Download M3U and convert to JSON, store in cache
-    const result = await window.electron.iptv.downloadAndConvert(url);
+/**
+ * Downloads, converts and stores a playlist in Electron's main process
+ * Item ids are moved into the playlist's range when the cache is loaded
+ */
+async function syncPlaylistInMainProcess(playlist: IPTVPlaylist, onProgress?: (message: string) => void): Promise<number> {
+  const cleanupProgress = listenToElectronProgress(playlist, onProgress);
 
-    // Cleanup progress listener
-    if (cleanupProgress) {
-      cleanupProgress();
+  try {
+    const result = await window.electron!.iptv.downloadAndConvert(playlist.url, playlist.id);
+    if (!result.success) {
+      throw new Error(result.error || "Failed to download and convert M3U file");
     }
+    return result.itemCount || 0;
+  } finally {
+    cleanupProgress();
+  }
+}
+
+/**
+ * Downloads a playlist and converts it with the shared parser, so it gives the same items everywhere
+ */
+async function syncPlaylistInRenderer(
+  playlist: IPTVPlaylist,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<number> {
+  const text = window.electron?.isElectron
+    ? await downloadPlaylistInElectron(playlist, onProgress)
+    : await downloadPlaylistInBrowser(playlist, signal);
+  signal?.throwIfAborted();
+
+  onProgress?.(`${playlist.name}: Converting playlist...`);
+  const idOffset = getPlaylistIdOffset(playlist);
+  const items = convertPlaylist(text).map((item, index) => ({ ...item, id: idOffset + index }));
+
+  onProgress?.(`${playlist.name}: Saving ${items.length} items...`);
+  await savePlaylistData(playlist.id, items);
+  return items.length;
+}
 
+/**
+ * Stores the converted items of a playlist in Electron's file cache or IndexedDB
+ */
+async function savePlaylistData(playlistId: string, items: ContentItem[]): Promise<void> {
+  if (window.electron?.isElectron) {
+    const result = await window.electron.iptv.saveCache!(playlistId, items);
     if (!result.success) {
-      return {
-        success: false,
-        message: result.error || "Failed to download and convert M3U file",
-      };
+      throw new Error(result.error || "Failed to save playlist cache");
     }
+    return;
+  }
 
-    // Update last sync time
-    const settings = loadSettings();
-    settings.iptvLastSync = new Date().toISOString();
-    saveSettings(settings);
+  const store = await getStore();
+  const meta: IPTVStoreMeta = {
+    itemCount: items.length,
+    storageSize: JSON.stringify(items).length,
+    lastModified: new Date().toISOString(),
+  };
+  await store.setItem(IPTV_DATA_PREFIX + playlistId, items);
+  await store.setItem(IPTV_META_PREFIX + playlistId, meta);
+}
+
+/**
+ * Records the outcome of a successful playlist sync in settings
+ */
+function updatePlaylistSyncInfo(playlistId: string, itemCount: number): void {
+  const settings = loadSettings();
+  settings.iptvPlaylists = settings.iptvPlaylists.map((playlist) =>
+    playlist.id === playlistId
+      ? { ...playlist, lastSync: new Date().toISOString(), itemCount }
+      : playlist
+  );
+  saveSettings(settings);
+}
+
+/**
+ * Fetches and converts a single IPTV playlist
+ * Uses Electron's file caching system when available, IndexedDB otherwise
+ */
+export async function syncIPTVPlaylist(
+  playlist: IPTVPlaylist,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<SyncResult> {
+  try {
+    onProgress?.(`${playlist.name}: Starting IPTV sync...`);
+
+    onProgress?.(`${playlist.name}: Downloading playlist...`);
+    const itemCount = canConvertInRenderer()
+      ? await syncPlaylistInRenderer(playlist, onProgress, signal)
+      : await syncPlaylistInMainProcess(playlist, onProgress);
+
+    // Update last sync time and item count
+    updatePlaylistSyncInfo(playlist.id, itemCount);
 
     // Clear the data cache so new content appears immediately
     clearCache();
 
-    onProgress?.(`Completed! Found ${result.itemCount} items`);
+    onProgress?.(`${playlist.name}: Completed! Found ${itemCount} items`);
 
     return {
       success: true,
-      message: "IPTV data synced successfully",
-      itemCount: result.itemCount,
+      message: `${playlist.name} synced successfully`,
+      itemCount,
     };
   } catch (error) {
     return {
       success: false,
-      message: error instanceof Error ? error.message : "Unknown error occurred",
+      message: `${playlist.name}: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
     };
   }
 }
 
 /**
- * Loads IPTV data from Electron cache
+ * Loads the cached items of a single playlist
  */
-export function loadIPTVData(): ContentItem[] | null {
-  // Note: This is now a synchronous function that returns null if not in Electron
-  // The actual data loading is handled asynchronously in dataLoader.ts
+async function loadPlaylistData(playlistId: string): Promise<ContentItem[] | null> {
   if (!window.electron?.isElectron) {
-    console.warn("IPTV data loading is only available in Electron app");
-    return null;
+    const store = await getStore();
+    const data = await store.getItem(IPTV_DATA_PREFIX + playlistId);
+    return Array.isArray(data) ? (data as ContentItem[]) : null;
   }
 
-  // Return null here - the actual loading is async and handled by loadIPTVDataAsync
-  return null;
+  const result = await window.electron.iptv.loadCache(playlistId);
+  if (!result.success || !result.data) {
+    return null;
+  }
+  return result.data as ContentItem[];
 }
 
 /**
- * Async version to load IPTV data from Electron cache
+ * Loads and merges the data of all enabled playlists
+ * Each item records its playlist; ids were assigned from the playlist's range when it was stored
  */
 export async function loadIPTVDataAsync(): Promise<ContentItem[] | null> {
-  if (!window.electron?.isElectron) {
-    return null;
-  }
+  const settings = loadSettings();
+  const merged: ContentItem[] = [];
 
-  try {
-    const result = await window.electron.iptv.loadCache();
+  for (const playlist of settings.iptvPlaylists) {
+    if (!playlist.enabled) continue;
 
-    if (!result.success || !result.data) {
-      return null;
-    }
+    try {
+      const data = await loadPlaylistData(playlist.id);
+      if (!data) continue;
 
-    return result.data as ContentItem[];
-  } catch (error) {
-    console.error("Failed to load IPTV cache:", error);
-    return null;
+      // Caches converted by the main process or stored before per-playlist ranges get the ids the renderer would give them
+      const idOffset = getPlaylistIdOffset(playlist);
+      data.forEach((item, index) => {
+        const inRange = item.id >= idOffset && item.id < idOffset + IPTV_PLAYLIST_ID_RANGE;
+        merged.push({ ...item, id: inRange ? item.id : idOffset + index, playlistId: playlist.id });
+      });
+    } catch (error) {
+      console.error(`Failed to load IPTV cache for ${playlist.name}:`, error);
+    }
   }
+
+  return merged.length > 0 ? merged : null;
 }
 
 /**
- * Clears IPTV cache
+ * Clears the cache of a single playlist
  */
-export async function clearIPTVData(): Promise<void> {
-  if (!window.electron?.isElectron) {
-    return;
-  }
-
+export async function clearIPTVData(playlistId: string): Promise<void> {
   try {
-    await window.electron.iptv.clearCache();
+    if (!window.electron?.isElectron) {
+      const store = await getStore();
+      await store.removeItem(IPTV_DATA_PREFIX + playlistId);
+      await store.removeItem(IPTV_META_PREFIX + playlistId);
+      return;
+    }
+
+    await window.electron.iptv.clearCache(playlistId);
   } catch (error) {
     console.error("Failed to clear IPTV cache:", error);
   }
 }
 
 /**
- * Gets IPTV cache information
+ * Gets cache information for a single playlist
  */
-export async function getIPTVCacheInfo() {
+export async function getIPTVCacheInfo(playlistId: string): Promise<IPTVCacheInfo | null> {
   if (!window.electron?.isElectron) {
-    return null;
+    try {
+      const store = await getStore();
+      await store.ready();
+      const meta: IPTVStoreMeta | null = await store.getItem(IPTV_META_PREFIX + playlistId);
+      const driver: string = store.driver();
+
+      return {
+        success: true,
+        exists: meta !== null,
+        itemCount: meta?.itemCount,
+        storageSize: meta?.storageSize,
+        lastModified: meta?.lastModified,
+        driver,
+        driverName: driver === localforage.INDEXEDDB
+          ? "IndexedDB"
+          : driver === localforage.WEBSQL
+            ? "WebSQL"
+            : "localStorage",
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      };
+    }
   }
 
   try {
-    const result = await window.electron.iptv.getCacheInfo();
+    const result = await window.electron.iptv.getCacheInfo(playlistId);
     return result;
   } catch (error) {
     console.error("Failed to get IPTV cache info:", error);
@@ -137,49 +325,41 @@ export async function getIPTVCacheInfo() {
 }
 
 /**
- * Checks if a sync is due based on settings
+ * Removes every playlist cache
  */
-export function isSyncDue(): boolean {
-  const settings = loadSettings();
-
-  if (!settings.iptvEnabled || !settings.iptvAutoSync || !settings.iptvUrl) {
-    return false;
-  }
-
-  // If never synced, sync is due
-  if (!settings.iptvLastSync) {
-    return true;
-  }
-
-  const lastSync = new Date(settings.iptvLastSync);
-  const now = new Date();
-
-  // Check if enough days have passed
-  const daysSinceSync = Math.floor(
-    (now.getTime() - lastSync.getTime()) / (1000 * 60 * 60 * 24)
-  );
-
-  if (daysSinceSync < settings.iptvSyncIntervalDays) {
-    return false;
+async function clearAllIPTVData(): Promise<void> {
+  for (const playlist of loadSettings().iptvPlaylists) {
+    await clearIPTVData(playlist.id);
   }
-
-  // Check if we're past the scheduled time today
-  const [hours, minutes] = settings.iptvSyncTime.split(":").map(Number);
-  const scheduledTime = new Date();
-  scheduledTime.setHours(hours, minutes, 0, 0);
-
-  return now >= scheduledTime;
 }
 
-/**
- * Performs auto-sync if due
- */
-export async function autoSyncIfDue(onProgress?: (message: string) => void): Promise<SyncResult | null> {
-  if (!isSyncDue()) {
-    return null;
-  }
-
-  const settings = loadSettings();
-  onProgress?.("Auto-syncing IPTV data...");
-  return await syncIPTVData(settings.iptvUrl, onProgress);
-}
+export const iptvAdapter: SourceAdapter = {
+  id: "iptv",
+  displayName: "IPTV",
+  description: "Enable and configure external IPTV playlists",
+  settingsSchema: {
+    enabledKey: "iptvEnabled",
+    fields: [],
+  },
+  // Every playlist is synced on its own schedule
+  getSyncTargets: (settings) =>
+    settings.iptvPlaylists
+      .filter((playlist) => playlist.enabled && playlist.url)
+      .map((playlist) => ({
+        id: playlist.id,
+        name: playlist.name,
+        autoSync: playlist.autoSync,
+        syncIntervalDays: playlist.syncIntervalDays,
+        syncTime: playlist.syncTime,
+        lastSync: playlist.lastSync,
+      })),
+  sync: async (settings, options) => {
+    const playlist = settings.iptvPlaylists.find((p) => p.id === options?.targetId);
+    if (!playlist) {
+      return { success: false, message: "Playlist not found" };
+    }
+    return syncIPTVPlaylist(playlist, options?.onProgress, options?.signal);
+  },
+  loadCachedItems: loadIPTVDataAsync,
+  clearCache: clearAllIPTVData,
+};
@@ -0,0 +1,349 @@
+import { ContentItem } from "../types/content";
+import { SourceAdapter, SyncResult } from "../types/source";
+import { loadSettings, saveSettings } from "./settings";
+import { clearCache } from "./dataLoader";
+import { createCatalogStore } from "./catalogStorage";
+import { normalizeLanguage } from "./m3uParser";
+
+// Catalogs saved as a single record are migrated on first load
+const LEGACY_JELLYFIN_DATA_KEY = "jellyfin-data";
+
+const jellyfinCatalog = createCatalogStore("jellyfin", "Jellyfin / Emby catalog cache for Kedi TV", {
+  load: (store) => store.getItem(LEGACY_JELLYFIN_DATA_KEY),
+  clear: (store) => store.removeItem(LEGACY_JELLYFIN_DATA_KEY),
+});
+const PAGE_SIZE = 500;
+const JELLYFIN_ID_OFFSET = 100000000000000; // Above the IPTV, Xtream and Plex ranges
+
+// Ids come from the first 12 hex digits of the server's item id (a GUID on Jellyfin, a number on Emby)
+const getJellyfinId = (itemId: string) => JELLYFIN_ID_OFFSET + parseInt(itemId.replace(/-/g, "").slice(0, 12), 16);
+
+export interface JellyfinServerInfo {
+  ServerName?: string;
+  ProductName?: string; // "Jellyfin Server" or "Emby Server"
+  Version?: string;
+  Id?: string;
+}
+
+interface JellyfinLibrary {
+  Id: string;
+  Name: string;
+  CollectionType?: string; // "movies", "tvshows", "music", ...
+}
+
+interface JellyfinMediaStream {
+  Type: string; // "Video", "Audio", "Subtitle"
+  Language?: string;
+  Codec?: string;
+  Width?: number;
+  Height?: number;
+  IsDefault?: boolean;
+}
+
+interface JellyfinItem {
+  Id: string;
+  Name: string;
+  Type: string; // "Movie", "Episode"
+  ProductionYear?: number;
+  Container?: string;
+  Genres?: string[];
+  SeriesName?: string;
+  SeriesId?: string;
+  SeriesPrimaryImageTag?: string;
+  ParentIndexNumber?: number; // season number for episodes
+  IndexNumber?: number; // episode number
+  ImageTags?: { Primary?: string };
+  MediaStreams?: JellyfinMediaStream[];
+}
+
+interface JellyfinItemsResponse {
+  Items?: JellyfinItem[];
+  TotalRecordCount?: number;
+}
+
+/**
+ * Calls the Jellyfin / Emby REST API with API key authentication
+ */
+async function fetchJellyfin<T>(serverUrl: string, apiKey: string, path: string, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(`${serverUrl}${path}`, {
+    signal,
+    headers: {
+      Accept: "application/json",
+      "X-Emby-Token": apiKey,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Jellyfin request failed (${path.split("?")[0]}): ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Maps the video stream resolution to a quality label
+ */
+function detectStreamQuality(streams: JellyfinMediaStream[]): string | null {
+  const video = streams.find((stream) => stream.Type === "Video");
+  if (!video?.Width && !video?.Height) return null;
+
+  const width = video.Width || 0;
+  const height = video.Height || 0;
+  if (width >= 3800 || height >= 2100) return "4K";
+  if (width >= 1900 || height >= 1000) return "FHD";
+  if (width >= 1260 || height >= 700) return "HD";
+  return "SD";
+}
+
+/**
+ * Picks the default (or first) audio stream language
+ */
+function detectStreamLanguage(streams: JellyfinMediaStream[]): string | null {
+  const audioStreams = streams.filter((stream) => stream.Type === "Audio");
+  const audio = audioStreams.find((stream) => stream.IsDefault) || audioStreams[0];
+  return audio?.Language ? normalizeLanguage(audio.Language) : null;
+}
+
+/**
+ * Normalizes a Jellyfin movie or episode to ContentItem
+ */
+function normalizeJellyfinItem(
+  item: JellyfinItem,
+  serverUrl: string,
+  apiKey: string,
+  id: number,
+  platform: string
+): ContentItem | null {
+  const type = item.Type === "Movie" ? "Movie" : item.Type === "Episode" ? "Series" : null;
+  if (!type) return null;
+
+  // Direct-play stream; the container extension tells the player what kind of file it is
+  const container = (item.Container || "").split(",")[0];
+  const streamUrl = `${serverUrl}/Videos/${item.Id}/stream${container ? `.${container}` : ""}?static=true&api_key=${apiKey}`;
+
+  // Episodes use the series poster so grouped shows look consistent
+  const imageId = item.Type === "Episode" && item.SeriesId && item.SeriesPrimaryImageTag
+    ? item.SeriesId
+    : item.ImageTags?.Primary
+      ? item.Id
+      : null;
+  const imageUrl = imageId ? `${serverUrl}/Items/${imageId}/Images/Primary?maxWidth=400&api_key=${apiKey}` : "";
+
+  const streams = item.MediaStreams || [];
+
+  return {
+    id,
+    name: item.Type === "Episode" ? item.SeriesName || item.Name : item.Name,
+    language: detectStreamLanguage(streams),
+    media: "On Demand",
+    type,
+    category: item.Genres?.[0] || null,
+    quality: detectStreamQuality(streams),
+    platform,
+    year: item.ProductionYear?.toString() || null,
+    season: type === "Series" && item.ParentIndexNumber !== undefined ? item.ParentIndexNumber.toString() : null,
+    episode: type === "Series" && item.IndexNumber !== undefined ? item.IndexNumber.toString() : null,
+    logo: imageUrl,
+    url: streamUrl,
+    source: "Jellyfin",
+  };
+}
+
+/**
+ * Tests the connection and returns server information
+ */
+export async function testJellyfinConnection(serverUrl: string, apiKey: string): Promise<JellyfinServerInfo> {
+  return fetchJellyfin<JellyfinServerInfo>(serverUrl.replace(/\/$/, ""), apiKey, "/System/Info");
+}
+
+/**
+ * Fetches all movie and TV show libraries
+ */
+async function fetchJellyfinLibraries(serverUrl: string, apiKey: string, signal?: AbortSignal): Promise<JellyfinLibrary[]> {
+  const data = await fetchJellyfin<{ Items?: JellyfinLibrary[] }>(
+    serverUrl,
+    apiKey,
+    "/Library/MediaFolders",
+    signal
+  );
+  return (data.Items || []).filter(
+    (library) => library.CollectionType === "movies" || library.CollectionType === "tvshows"
+  );
+}
+
+/**
+ * Fetches all movies and episodes of a library, page by page
+ */
+async function fetchLibraryItems(
+  serverUrl: string,
+  apiKey: string,
+  library: JellyfinLibrary,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<JellyfinItem[]> {
+  const items: JellyfinItem[] = [];
+  let startIndex = 0;
+  let total = Infinity;
+
+  while (startIndex < total) {
+    const query = new URLSearchParams({
+      ParentId: library.Id,
+      Recursive: "true",
+      IncludeItemTypes: library.CollectionType === "movies" ? "Movie" : "Episode",
+      Fields: "MediaStreams,Genres,ProductionYear",
+      SortBy: "SortName",
+      StartIndex: startIndex.toString(),
+      Limit: PAGE_SIZE.toString(),
+    });
+    const page = await fetchJellyfin<JellyfinItemsResponse>(serverUrl, apiKey, `/Items?${query.toString()}`, signal);
+    const pageItems = page.Items || [];
+
+    items.push(...pageItems);
+    total = page.TotalRecordCount ?? items.length;
+    startIndex += PAGE_SIZE;
+
+    if (pageItems.length === 0) break;
+    onProgress?.(`${library.Name}: ${items.length}/${total} items`);
+  }
+
+  return items;
+}
+
+/**
+ * Fetches all content from a Jellyfin / Emby server
+ */
+export async function fetchJellyfinData(
+  serverUrl: string,
+  apiKey: string,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<ContentItem[]> {
+  // Remove trailing slash from URL
+  serverUrl = serverUrl.replace(/\/$/, "");
+
+  onProgress?.("Connecting to server...");
+  const info = await fetchJellyfin<JellyfinServerInfo>(serverUrl, apiKey, "/System/Info", signal);
+  const platform = info.ProductName?.toLowerCase().includes("emby") ? "Emby" : "Jellyfin";
+
+  onProgress?.(`Fetching ${platform} libraries...`);
+  const libraries = await fetchJellyfinLibraries(serverUrl, apiKey, signal);
+
+  const allItems: ContentItem[] = [];
+  const usedIds = new Set<number>();
+
+  for (let i = 0; i < libraries.length; i++) {
+    const library = libraries[i];
+    onProgress?.(`Processing library ${i + 1}/${libraries.length}: ${library.Name}`);
+
+    const items = await fetchLibraryItems(serverUrl, apiKey, library, onProgress, signal);
+    for (const item of items) {
+      // Two item ids sharing their first digits take the next free id
+      let id = getJellyfinId(item.Id);
+      while (usedIds.has(id)) id++;
+
+      const normalizedItem = normalizeJellyfinItem(item, serverUrl, apiKey, id, platform);
+      if (normalizedItem) {
+        allItems.push(normalizedItem);
+        usedIds.add(id);
+      }
+    }
+  }
+
+  onProgress?.(`Completed! Found ${allItems.length} items`);
+  return allItems;
+}
+
+/**
+ * Saves Jellyfin data to IndexedDB
+ */
+export async function saveJellyfinData(data: ContentItem[]): Promise<void> {
+  await jellyfinCatalog.save(data);
+}
+
+/**
+ * Loads Jellyfin data from IndexedDB
+ */
+export async function loadJellyfinData(): Promise<ContentItem[] | null> {
+  return jellyfinCatalog.load();
+}
+
+/**
+ * Clears Jellyfin data from IndexedDB
+ */
+export async function clearJellyfinData(): Promise<void> {
+  await jellyfinCatalog.clear();
+}
+
+/**
+ * Performs a sync operation: fetches and saves Jellyfin data
+ */
+export async function syncJellyfinData(
+  serverUrl: string,
+  apiKey: string,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<SyncResult> {
+  try {
+    const data = await fetchJellyfinData(serverUrl, apiKey, onProgress, signal);
+    signal?.throwIfAborted();
+    await saveJellyfinData(data);
+
+    // Update last sync time
+    const settings = loadSettings();
+    settings.jellyfinLastSync = new Date().toISOString();
+    saveSettings(settings);
+
+    // Clear the data cache so new content appears immediately
+    clearCache();
+
+    return {
+      success: true,
+      message: "Jellyfin data synced successfully",
+      itemCount: data.length,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+export const jellyfinAdapter: SourceAdapter = {
+  id: "jellyfin",
+  displayName: "Jellyfin / Emby",
+  description: "Connect your Jellyfin or Emby server to access your movies and TV shows",
+  settingsSchema: {
+    enabledKey: "jellyfinEnabled",
+    fields: [
+      {
+        key: "jellyfinUrl",
+        label: "Server URL",
+        type: "url",
+        placeholder: "http://192.168.1.100:8096",
+      },
+      {
+        key: "jellyfinApiKey",
+        label: "API Key",
+        type: "password",
+        placeholder: "Enter your API key",
+        description: "Create one in the server dashboard under Advanced → API Keys",
+      },
+    ],
+    schedule: {
+      autoSyncKey: "jellyfinAutoSync",
+      syncIntervalDaysKey: "jellyfinSyncIntervalDays",
+      syncTimeKey: "jellyfinSyncTime",
+      lastSyncKey: "jellyfinLastSync",
+    },
+  },
+  testConnection: async (settings) => {
+    const info = await testJellyfinConnection(settings.jellyfinUrl, settings.jellyfinApiKey);
+    const server = [info.ServerName, info.Version && `v${info.Version}`].filter(Boolean).join(" ");
+    return `${info.ProductName || "Jellyfin"} connection successful!${server ? ` ${server}` : ""} ✓`;
+  },
+  sync: (settings, options) =>
+    syncJellyfinData(settings.jellyfinUrl, settings.jellyfinApiKey, options?.onProgress, options?.signal),
+  loadCachedItems: loadJellyfinData,
+  clearCache: clearJellyfinData,
+};
@@ -0,0 +1,349 @@
+/**
+ * Extended M3U / M3U8 playlist parser
+ *
+ * Converts an IPTV playlist into ContentItem[] using the same rules in the
+ * renderer (browser build, dev server) and in Electron.
+ * Features:
+ * - Reads #EXTINF attributes (tvg-id, tvg-name, tvg-logo, group-title, tvg-language, tvg-chno)
+ * - Reads ClearKey licenses from #KODIPROP inputstream.adaptive properties
+ * - Infers type/media from group names and Xtream-style URL paths
+ * - Extracts season/episode, year and quality from naming conventions
+ *
+ * This module is free of DOM and storage dependencies on purpose, so the
+ * Electron main process can import it as-is.
+ */
+
+import { ContentItem, DrmConfig } from "../types/content";
+
+export interface M3UEntry {
+  duration: number;
+  title: string;
+  attributes: Record<string, string>;
+  properties: Record<string, string>; // #KODIPROP key=value pairs
+  url: string;
+}
+
+export interface M3UParseOptions {
+  idOffset?: number; // First id to assign (default: 1)
+  source?: ContentItem["source"];
+}
+
+// Language names and prefixes seen in playlists, mapped to the codes used in settings
+const LANGUAGE_CODES: Record<string, string> = {
+  al: "alb", alb: "alb", albanian: "alb", sq: "alb",
+  az: "aze", aze: "aze", azerbaijani: "aze",
+  bg: "bul", bul: "bul", bulgarian: "bul",
+  cn: "chi", zh: "chi", chi: "chi", chinese: "chi",
+  cz: "cze", cs: "cze", cze: "cze", czech: "cze",
+  de: "deu", ger: "deu", deu: "deu", german: "deu", deutsch: "deu",
+  nl: "dut", dut: "dut", dutch: "dut",
+  en: "eng", uk: "eng", us: "eng", eng: "eng", english: "eng",
+  fr: "fra", fre: "fra", fra: "fra", french: "fra",
+  gr: "gre", el: "gre", gre: "gre", greek: "gre",
+  hi: "hin", in: "hin", hin: "hin", hindi: "hin",
+  hu: "hun", hun: "hun", hungarian: "hun",
+  it: "ita", ita: "ita", italian: "ita",
+  jp: "jpn", ja: "jpn", jpn: "jpn", japanese: "jpn",
+  kr: "kor", ko: "kor", kor: "kor", korean: "kor",
+  ir: "per", fa: "per", per: "per", persian: "per",
+  pl: "pol", pol: "pol", polish: "pol",
+  pt: "por", por: "por", portuguese: "por",
+  ro: "rum", rum: "rum", romanian: "rum",
+  ru: "rus", rus: "rus", russian: "rus",
+  es: "spa", spa: "spa", spanish: "spa",
+  se: "swe", sv: "swe", swe: "swe", swedish: "swe",
+  tr: "tur", tur: "tur", turkish: "tur", türkçe: "tur", turkce: "tur",
+  ua: "ukr", ukr: "ukr", ukrainian: "ukr",
+};
+
+// Keywords in group-title (lowercase) that reveal the content type
+const SERIES_KEYWORDS = ["series", "dizi", "tv shows", "shows"];
+const MOVIE_KEYWORDS = ["movie", "film", "vod", "sinema", "cinema"];
+const RADIO_KEYWORDS = ["radio", "radyo"];
+
+// Streaming platforms commonly used as group names by providers
+const PLATFORMS = [
+  "Amazon Prime",
+  "Apple TV",
+  "BluTV",
+  "Disney",
+  "Exxen",
+  "GAİN",
+  "HBO Max",
+  "Netflix",
+  "Tabii",
+];
+
+const ATTRIBUTE_PATTERN = /([\w-]+)="([^"]*)"/g;
+const SEASON_EPISODE_PATTERNS = [
+  /\bS(\d{1,3})\s*[ .-]?\s*E(\d{1,4})\b/i, // S01E02, S01 E02, S1.E2
+  /\b(\d{1,2})x(\d{1,3})\b/i, // 1x02
+  /(\d{1,3})\.?\s*Sezon\s*(\d{1,4})\.?\s*Bölüm/i, // 1. Sezon 2. Bölüm
+  /Season\s*(\d{1,3})\s*Episode\s*(\d{1,4})/i,
+];
+const YEAR_PATTERN = /[([]?\b((?:19|20)\d{2})\b[)\]]?/;
+const QUALITY_PATTERN = /\b(4K|UHD|FHD|1080p|HD|720p|SD)\b/i;
+const CLEARKEY_PAIR_PATTERN = /^([0-9a-f]{32}):([0-9a-f]{32})$/i;
+
+/**
+ * Parses the raw #EXTINF line into duration, title and attributes
+ */
+function parseExtInf(line: string): Omit<M3UEntry, "url" | "properties"> {
+  const body = line.substring(line.indexOf(":") + 1);
+
+  // The title follows the first comma that is outside of quoted attribute values
+  let inQuotes = false;
+  let commaIndex = -1;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === "," && !inQuotes) {
+      commaIndex = i;
+      break;
+    }
+  }
+
+  const header = commaIndex >= 0 ? body.substring(0, commaIndex) : body;
+  const title = commaIndex >= 0 ? body.substring(commaIndex + 1).trim() : "";
+
+  const attributes: Record<string, string> = {};
+  for (const match of header.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = match[2].trim();
+  }
+
+  const duration = parseFloat(header.trim().split(/\s+/)[0]);
+
+  return {
+    duration: isNaN(duration) ? -1 : duration,
+    title,
+    attributes,
+  };
+}
+
+/**
+ * Splits a playlist into raw entries (attributes + URL), skipping unknown directives
+ */
+export function parseM3UEntries(text: string): M3UEntry[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const entries: M3UEntry[] = [];
+  let pending: Omit<M3UEntry, "url" | "properties"> | null = null;
+  // #KODIPROP lines may come before or after #EXTINF, so they are kept until the URL
+  let properties: Record<string, string> = {};
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith("#EXTINF")) {
+      pending = parseExtInf(line);
+      continue;
+    }
+
+    if (line.startsWith("#EXTGRP:") && pending && !pending.attributes["group-title"]) {
+      pending.attributes["group-title"] = line.substring(8).trim();
+      continue;
+    }
+
+    if (line.startsWith("#KODIPROP:")) {
+      const property = line.substring(10);
+      const separator = property.indexOf("=");
+      if (separator > 0) {
+        properties[property.substring(0, separator).trim().toLowerCase()] = property.substring(separator + 1).trim();
+      }
+      continue;
+    }
+
+    // Other directives (#EXTM3U, #EXTVLCOPT, ...) are ignored
+    if (line.startsWith("#")) continue;
+
+    if (pending) {
+      entries.push({ ...pending, properties, url: line });
+      pending = null;
+    }
+    properties = {};
+  }
+
+  return entries;
+}
+
+/**
+ * Maps a language name, ISO code or country prefix to the app's language code
+ */
+export function normalizeLanguage(value: string | undefined | null): string | null {
+  if (!value) return null;
+  // tvg-language may hold a list ("Turkish;English") - the first entry wins
+  const first = value.split(/[;,|]/)[0].trim().toLowerCase();
+  return LANGUAGE_CODES[first] || null;
+}
+
+/**
+ * Extracts a country/language prefix such as "TR:", "TR |" or "[TR]" from a name
+ */
+export function extractPrefix(value: string): { prefix: string | null; rest: string } {
+  const match = value.match(/^\s*(?:\[([A-Za-z]{2,3})\]|([A-Za-z]{2,3})\s*[:|])\s*(.*)$/);
+  if (!match) return { prefix: null, rest: value.trim() };
+  return { prefix: (match[1] || match[2]).toLowerCase(), rest: match[3].trim() };
+}
+
+function containsKeyword(value: string, keywords: string[]): boolean {
+  const lower = value.toLocaleLowerCase("tr-TR");
+  return keywords.some(keyword => lower.includes(keyword));
+}
+
+/**
+ * Infers the content type from attributes, group name and URL conventions
+ */
+function inferType(entry: M3UEntry, group: string, hasEpisode: boolean): ContentItem["type"] {
+  const url = entry.url.toLowerCase();
+
+  if (entry.attributes["radio"] === "true" || containsKeyword(group, RADIO_KEYWORDS)) {
+    return "Radio";
+  }
+
+  // Xtream Codes style URLs: /series/user/pass/id.ext and /movie/user/pass/id.ext
+  if (/\/series\//.test(url) || hasEpisode || containsKeyword(group, SERIES_KEYWORDS)) {
+    return "Series";
+  }
+  if (/\/movie\//.test(url) || containsKeyword(group, MOVIE_KEYWORDS)) {
+    return "Movie";
+  }
+
+  // Anything that looks like a file rather than a stream is on-demand content
+  if (/\.(mp4|mkv|avi|mov|webm)(\?|$)/.test(url)) {
+    return "Movie";
+  }
+
+  return "TV";
+}
+
+function normalizeQuality(value: string | undefined): string | null {
+  if (!value) return null;
+  const upper = value.toUpperCase();
+  if (upper === "UHD" || upper === "4K") return "4K";
+  if (upper === "FHD" || upper === "1080P") return "FHD";
+  if (upper === "HD" || upper === "720P") return "HD";
+  if (upper === "SD") return "SD";
+  return null;
+}
+
+/**
+ * Detects a quality tag (4K, FHD, HD, SD) anywhere in a name
+ */
+export function detectQuality(value: string): string | null {
+  return normalizeQuality(value.match(QUALITY_PATTERN)?.[1]);
+}
+
+/**
+ * Reads a ClearKey license from inputstream.adaptive properties
+ * license_key holds either "kid:key" hex pairs (comma separated) or a license server URL
+ */
+function parseClearKey(properties: Record<string, string>): DrmConfig | null {
+  const licenseType = properties["inputstream.adaptive.license_type"]?.toLowerCase();
+  const licenseKey = properties["inputstream.adaptive.license_key"];
+  if (!licenseKey || (licenseType !== "clearkey" && licenseType !== "org.w3.clearkey")) return null;
+
+  if (/^https?:\/\//i.test(licenseKey)) {
+    return { type: "clearkey", licenseUrl: licenseKey };
+  }
+
+  const keys: Record<string, string> = {};
+  for (const pair of licenseKey.split(",")) {
+    const match = pair.trim().match(CLEARKEY_PAIR_PATTERN);
+    if (match) keys[match[1].toLowerCase()] = match[2].toLowerCase();
+  }
+  return Object.keys(keys).length > 0 ? { type: "clearkey", keys } : null;
+}
+
+function findPlatform(group: string): string | null {
+  const lower = group.toLocaleLowerCase("tr-TR");
+  return PLATFORMS.find(platform => lower.includes(platform.toLocaleLowerCase("tr-TR"))) || null;
+}
+
+/**
+ * Removes season/episode markers, year and quality tags from a display name
+ */
+function cleanName(name: string, seasonMatch: RegExpMatchArray | null): string {
+  let result = name;
+  if (seasonMatch?.index !== undefined) {
+    result = result.substring(0, seasonMatch.index);
+  }
+  result = result
+    .replace(/[([]\s*(?:19|20)\d{2}\s*[)\]]/g, "")
+    .replace(new RegExp(QUALITY_PATTERN.source, "gi"), "")
+    .replace(/[\s\-|:.]+$/g, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  return result || name.trim();
+}
+
+/**
+ * Converts a single playlist entry to ContentItem
+ */
+export function entryToContentItem(
+  entry: M3UEntry,
+  id: number,
+  source: ContentItem["source"] = "IPTV"
+): ContentItem {
+  const attributes = entry.attributes;
+  const rawName = attributes["tvg-name"] || entry.title || attributes["tvg-id"] || entry.url;
+  const rawGroup = attributes["group-title"] || "";
+
+  const { prefix: namePrefix, rest: nameWithoutPrefix } = extractPrefix(entry.title || rawName);
+  const { prefix: groupPrefix, rest: group } = extractPrefix(rawGroup);
+
+  let seasonMatch: RegExpMatchArray | null = null;
+  for (const pattern of SEASON_EPISODE_PATTERNS) {
+    seasonMatch = nameWithoutPrefix.match(pattern);
+    if (seasonMatch) break;
+  }
+
+  const type = inferType(entry, group, seasonMatch !== null);
+  const isOnDemand = type === "Movie" || type === "Series";
+
+  const yearMatch = isOnDemand ? nameWithoutPrefix.match(YEAR_PATTERN) : null;
+  const qualityMatch = nameWithoutPrefix.match(QUALITY_PATTERN) || group.match(QUALITY_PATTERN);
+
+  const language =
+    normalizeLanguage(attributes["tvg-language"]) ||
+    normalizeLanguage(namePrefix) ||
+    normalizeLanguage(groupPrefix) ||
+    normalizeLanguage(attributes["tvg-country"]);
+
+  const channelNumber = parseInt(attributes["tvg-chno"] || "", 10);
+  const drm = parseClearKey(entry.properties);
+
+  return {
+    id,
+    name: isOnDemand ? cleanName(nameWithoutPrefix, seasonMatch) : nameWithoutPrefix,
+    language,
+    media: isOnDemand ? "On Demand" : "Live",
+    type,
+    category: group || null,
+    quality: normalizeQuality(qualityMatch?.[1]),
+    platform: isOnDemand ? findPlatform(group) : null,
+    year: yearMatch ? yearMatch[1] : null,
+    season: type === "Series" && seasonMatch ? parseInt(seasonMatch[1], 10).toString() : null,
+    episode: type === "Series" && seasonMatch ? parseInt(seasonMatch[2], 10).toString() : null,
+    logo: attributes["tvg-logo"] || "",
+    url: entry.url,
+    source,
+    ...(attributes["tvg-id"] && { tvgId: attributes["tvg-id"] }),
+    ...(!isNaN(channelNumber) && { channelNumber }),
+    ...(drm && { drm }),
+  };
+}
+
+/**
+ * Parses an extended M3U playlist into ContentItem[]
+ */
+export function parseM3U(text: string, options: M3UParseOptions = {}): ContentItem[] {
+  const { idOffset = 1, source = "IPTV" } = options;
+  return parseM3UEntries(text).map((entry, index) => entryToContentItem(entry, idOffset + index, source));
+}
+
+/**
+ * Checks whether the text looks like an M3U playlist
+ */
+export function isM3U(text: string): boolean {
+  return /^\uFEFF?\s*#EXTM3U/.test(text) || text.includes("#EXTINF");
+}
@@ -0,0 +1,407 @@
+/**
+ * Checks whether the browser can decode a file natively, from its container and codec names
+ * Codec names follow Plex/ffmpeg naming ("h264", "hevc", "ac3", ...)
+ *
+ * Streams are probed over the network when the URL doesn't say enough:
+ * the Content-Type, the first bytes of the body, HLS CODECS attributes and
+ * the codec ids in MP4/Matroska headers.
+ */
+
+export interface MediaFormat {
+  container?: string; // File extension, e.g. "mkv"
+  videoCodec?: string;
+  audioCodec?: string;
+}
+
+export interface PlaybackSupport {
+  playable: boolean;
+  reason: string | null; // Why it is not playable
+}
+
+// RFC 6381 codec strings used to ask MediaSource about each codec
+const VIDEO_CODEC_STRINGS: Record<string, string> = {
+  h264: "avc1.640028",
+  hevc: "hvc1.1.6.L120.90",
+  h265: "hvc1.1.6.L120.90",
+  vp8: "vp8",
+  vp9: "vp09.00.40.08",
+  av1: "av01.0.08M.08",
+  mpeg4: "mp4v.20.9",
+};
+
+const AUDIO_CODEC_STRINGS: Record<string, string> = {
+  aac: "mp4a.40.2",
+  mp3: "mp4a.69",
+  opus: "opus",
+  vorbis: "vorbis",
+  flac: "flac",
+  ac3: "ac-3",
+  eac3: "ec-3",
+};
+
+// Containers <video> can open; Chromium and Firefox demux Matroska like WebM
+const CONTAINER_MIME_TYPES: Record<string, string> = {
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  mov: "video/mp4",
+  webm: "video/webm",
+  mkv: "video/webm",
+};
+
+// Readable names for RFC 6381 codec prefixes, used in reasons
+const CODEC_STRING_NAMES: Record<string, string> = {
+  avc1: "H264 video",
+  avc3: "H264 video",
+  hvc1: "HEVC video",
+  hev1: "HEVC video",
+  dvh1: "Dolby Vision video",
+  dvhe: "Dolby Vision video",
+  av01: "AV1 video",
+  vp09: "VP9 video",
+  mp4a: "AAC audio",
+  "ac-3": "AC3 audio",
+  "ec-3": "EAC3 audio",
+  "ac-4": "AC4 audio",
+  dtsc: "DTS audio",
+};
+
+// Codec ids in file headers: Matroska CodecID strings and MP4 sample entry types
+const HEADER_VIDEO_CODECS: [string, string][] = [
+  ["V_MPEG4/ISO/AVC", "h264"],
+  ["V_MPEGH/ISO/HEVC", "hevc"],
+  ["V_VP9", "vp9"],
+  ["V_VP8", "vp8"],
+  ["V_AV1", "av1"],
+  ["avc1", "h264"],
+  ["avc3", "h264"],
+  ["hvc1", "hevc"],
+  ["hev1", "hevc"],
+  ["av01", "av1"],
+  ["vp09", "vp9"],
+];
+
+const HEADER_AUDIO_CODECS: [string, string][] = [
+  ["A_EAC3", "eac3"],
+  ["A_AC3", "ac3"],
+  ["A_DTS", "dts"],
+  ["A_TRUEHD", "truehd"],
+  ["A_AAC", "aac"],
+  ["A_OPUS", "opus"],
+  ["A_VORBIS", "vorbis"],
+  ["A_FLAC", "flac"],
+  ["A_MPEG/L3", "mp3"],
+  ["ec-3", "eac3"],
+  ["ac-3", "ac3"],
+  ["dtsc", "dts"],
+  ["dtsh", "dts"],
+  ["mp4a", "aac"],
+  ["Opus", "opus"],
+  ["fLaC", "flac"],
+];
+
+// Content-Types of files, mapped to the extension checkNativePlayback() expects
+const CONTENT_TYPE_CONTAINERS: Record<string, string> = {
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/x-matroska": "mkv",
+  "video/quicktime": "mov",
+  "video/x-msvideo": "avi",
+  "video/x-flv": "flv",
+};
+
+/**
+ * Reads the lowercase file extension of a URL, ignoring the query string
+ */
+export function getUrlExtension(url: string): string | null {
+  const match = url.split(/[?#]/)[0].match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+const isTypeSupported = (mimeType: string, codec: string) =>
+  typeof MediaSource !== "undefined" && MediaSource.isTypeSupported(`${mimeType}; codecs="${codec}"`);
+
+/**
+ * Checks a format against MediaSource.isTypeSupported
+ * Unknown values are assumed playable, since there is nothing to check them against
+ */
+export function checkNativePlayback(format: MediaFormat): PlaybackSupport {
+  const container = format.container?.toLowerCase();
+  const mimeType = container ? CONTAINER_MIME_TYPES[container] : "video/mp4";
+  if (!mimeType) {
+    return { playable: false, reason: `${container!.toUpperCase()} files can't be played in the browser` };
+  }
+
+  const videoCodec = format.videoCodec?.toLowerCase();
+  if (videoCodec) {
+    const codec = VIDEO_CODEC_STRINGS[videoCodec];
+    // Codecs are checked in MP4 too, as WebM only lists VP8/VP9/AV1
+    if (!codec || !(isTypeSupported(mimeType, codec) || isTypeSupported("video/mp4", codec))) {
+      return { playable: false, reason: `${videoCodec.toUpperCase()} video isn't supported by this browser` };
+    }
+  }
+
+  const audioCodec = format.audioCodec?.toLowerCase();
+  if (audioCodec) {
+    const codec = AUDIO_CODEC_STRINGS[audioCodec];
+    if (!codec || !(isTypeSupported(mimeType, codec) || isTypeSupported("audio/mp4", codec))) {
+      return { playable: false, reason: `${audioCodec.toUpperCase()} audio isn't supported by this browser` };
+    }
+  }
+
+  return { playable: true, reason: null };
+}
+
+const getCodecStringName = (codec: string) => {
+  const prefix = codec.trim().split(".")[0];
+  return CODEC_STRING_NAMES[prefix] || prefix.toUpperCase();
+};
+
+/**
+ * Checks HLS variants by their CODECS attributes; one playable variant is enough
+ * Segments are checked as MP4, since hls.js remuxes MPEG-TS into fragmented MP4
+ */
+export function checkCodecStrings(variants: string[]): PlaybackSupport {
+  if (variants.length === 0 || typeof MediaSource === "undefined") {
+    return { playable: true, reason: null };
+  }
+
+  for (const codecs of variants) {
+    if (MediaSource.isTypeSupported(`video/mp4; codecs="${codecs}"`)) {
+      return { playable: true, reason: null };
+    }
+  }
+
+  // Name the first codec that fails on its own
+  const unsupported = variants[0]
+    .split(",")
+    .find((codec) => !MediaSource.isTypeSupported(`video/mp4; codecs="${codec.trim()}"`));
+  const name = unsupported ? getCodecStringName(unsupported) : "This stream's codecs";
+  return { playable: false, reason: `${name} isn't supported by this browser` };
+}
+
+/**
+ * How a stream is delivered, which decides the engine that plays it
+ */
+export type StreamType = "hls" | "dash" | "mpegts" | "file";
+
+export interface StreamProbe {
+  type: StreamType | null;
+  contentType: string | null;
+}
+
+const PROBE_TIMEOUT = 5000;
+const SNIFF_LENGTH = 512; // Bytes of the body read when the Content-Type is inconclusive
+const HEADER_LENGTH = 65536; // Bytes read to find codecs in file headers and HLS playlists
+const TS_PACKET_SIZE = 188;
+const TS_SYNC_BYTE = 0x47;
+
+/**
+ * Reads the stream type from a URL extension, or null when the URL doesn't tell
+ */
+export function getStreamTypeFromUrl(url: string): StreamType | null {
+  switch (getUrlExtension(url)) {
+    case "m3u8":
+    case "m3u":
+      return "hls";
+    case "mpd":
+      return "dash";
+    case "ts":
+    case "mts":
+    case "m2ts":
+      return "mpegts";
+    case "mp4":
+    case "m4v":
+    case "mov":
+    case "webm":
+    case "mkv":
+    case "avi":
+    case "mp3":
+    case "aac":
+      return "file";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Maps a Content-Type header to a stream type
+ */
+export function getStreamTypeFromContentType(contentType: string | null): StreamType | null {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (!type) return null;
+  if (type.includes("mpegurl")) return "hls";
+  if (type === "application/dash+xml") return "dash";
+  if (type === "video/mp2t" || type === "video/mpeg") return "mpegts";
+  if (type.startsWith("video/") || type.startsWith("audio/")) return "file";
+  return null;
+}
+
+/**
+ * Maps a Content-Type header to the container of a file
+ */
+export function getContainerFromContentType(contentType: string | null): string | null {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  return (type && CONTENT_TYPE_CONTAINERS[type]) || null;
+}
+
+/**
+ * Recognizes a stream from the first bytes of its body
+ * Manifests are often served as text/plain or application/octet-stream
+ */
+export function getStreamTypeFromContent(head: Uint8Array): StreamType | null {
+  if (head[0] === TS_SYNC_BYTE && head.length > TS_PACKET_SIZE && head[TS_PACKET_SIZE] === TS_SYNC_BYTE) {
+    return "mpegts";
+  }
+
+  const text = new TextDecoder().decode(head).replace(/^\uFEFF/, "").trimStart();
+  if (text.startsWith("#EXTM3U")) return "hls";
+  // The MPD element may follow an XML declaration and comments
+  if (/^<(\?xml|!--|MPD[\s>])/.test(text) && /<MPD[\s>]/.test(text)) return "dash";
+  return null;
+}
+
+/**
+ * Reads the CODECS attribute of each variant in an HLS master playlist
+ * Media playlists have none, which leaves nothing to check
+ */
+export function getHlsCodecs(playlist: string): string[] {
+  return playlist
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("#EXT-X-STREAM-INF:"))
+    .map((line) => line.match(/CODECS="([^"]+)"/)?.[1])
+    .filter((codecs): codecs is string => !!codecs);
+}
+
+/**
+ * Finds the video and audio codec ids in the header of an MP4 or Matroska file
+ * MP4 files only have them up front when the moov box precedes the media data
+ */
+export function getFormatFromContent(head: Uint8Array): MediaFormat {
+  const isMatroska = head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3;
+  const isMp4 = new TextDecoder().decode(head.subarray(4, 8)) === "ftyp";
+  if (!isMatroska && !isMp4) return {};
+
+  // Codec ids are ASCII, so a latin1 view of the bytes can be searched as text
+  const text = new TextDecoder("latin1").decode(head);
+  // Tracks are listed in order, so the first id in the file is the default track
+  const findCodec = (codecs: [string, string][]) => {
+    let found: { codec: string; position: number } | null = null;
+    for (const [id, codec] of codecs) {
+      if (isMatroska !== id.includes("_")) continue; // Matroska ids are the ones like "A_AC3"
+      const position = text.indexOf(id);
+      if (position >= 0 && (!found || position < found.position)) {
+        found = { codec, position };
+      }
+    }
+    return found?.codec;
+  };
+
+  return {
+    container: isMatroska ? "mkv" : "mp4",
+    videoCodec: findCodec(HEADER_VIDEO_CODECS),
+    audioCodec: findCodec(HEADER_AUDIO_CODECS),
+  };
+}
+
+/**
+ * Reads up to length bytes of a response body
+ */
+async function readHead(response: Response, length: number): Promise<Uint8Array | null> {
+  const reader = response.body?.getReader();
+  if (!reader) return null;
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (total < length) {
+    const { done, value } = await reader.read();
+    if (done || !value) break;
+    chunks.push(value);
+    total += value.length;
+  }
+
+  const head = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    head.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return head.subarray(0, length);
+}
+
+/**
+ * Makes a probe request with a timeout, aborting the download once read() is done
+ * Returns null on HTTP errors and on CORS or network failures
+ */
+async function probeRequest<T>(
+  url: string,
+  method: "HEAD" | "GET",
+  signal: AbortSignal | undefined,
+  read: (response: Response) => Promise<T>
+): Promise<T | null> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort, { once: true });
+  const timeout = setTimeout(abort, PROBE_TIMEOUT);
+
+  try {
+    const response = await fetch(url, { method, signal: controller.signal });
+    return response.ok ? await read(response) : null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener("abort", abort);
+    controller.abort(); // Stop downloading the body
+  }
+}
+
+/**
+ * Fetches the first length bytes of a URL
+ */
+async function fetchHead(url: string, length: number, signal?: AbortSignal): Promise<Uint8Array | null> {
+  return probeRequest(url, "GET", signal, (response) => readHead(response, length));
+}
+
+/**
+ * Works out the stream type of a URL from the network
+ * HEAD is tried first; live streams often reject it, and generic Content-Types
+ * say nothing, so a GET follows that reads the first bytes and is then aborted
+ */
+export async function probeStream(url: string, signal?: AbortSignal): Promise<StreamProbe> {
+  let contentType: string | null = null;
+
+  for (const method of ["HEAD", "GET"] as const) {
+    const probe = await probeRequest(url, method, signal, async (response): Promise<StreamProbe> => {
+      const responseType = response.headers.get("Content-Type");
+      const type = getStreamTypeFromContentType(responseType);
+      if (type || method === "HEAD") {
+        return { type, contentType: responseType };
+      }
+
+      const head = await readHead(response, SNIFF_LENGTH);
+      return { type: head ? getStreamTypeFromContent(head) : null, contentType: responseType };
+    });
+
+    contentType = probe?.contentType || contentType;
+    if (probe?.type) return probe;
+    if (signal?.aborted) break;
+  }
+
+  return { type: null, contentType };
+}
+
+/**
+ * Fetches an HLS playlist and reads the CODECS of its variants
+ */
+export async function probeHlsCodecs(url: string, signal?: AbortSignal): Promise<string[]> {
+  const head = await fetchHead(url, HEADER_LENGTH, signal);
+  return head ? getHlsCodecs(new TextDecoder().decode(head)) : [];
+}
+
+/**
+ * Reads the container and codecs from the start of a file
+ */
+export async function probeFileFormat(url: string, signal?: AbortSignal): Promise<MediaFormat> {
+  const head = await fetchHead(url, HEADER_LENGTH, signal);
+  return head ? getFormatFromContent(head) : {};
+}
@@ -0,0 +1,124 @@
+import mpegts from "mpegts.js";
+import { PlaybackEngine, PlaybackEngineCallbacks } from "../types/playback";
+
+const STALL_CHECK_INTERVAL = 2000; // Milliseconds between playhead checks
+const STALL_TIMEOUT = 10000; // Reconnect when the playhead hasn't moved for this long
+const MAX_RECONNECTS = 5; // Consecutive reconnects without playback in between
+const RECONNECT_DELAY = 1000; // Milliseconds, multiplied by the attempt number
+const LIVE_EDGE_TOLERANCE = 10; // Seconds behind the buffered end before offering "Go Live"
+
+/**
+ * Checks if mpegts.js can run here (it transmuxes into Media Source Extensions)
+ */
+export function isMpegTsEngineSupported(): boolean {
+  return mpegts.isSupported();
+}
+
+/**
+ * Plays an MPEG-TS stream in the video element with mpegts.js
+ * Live streams reconnect when they stall or drop, until MAX_RECONNECTS attempts in a row fail
+ */
+export function createMpegTsEngine(
+  video: HTMLVideoElement,
+  url: string,
+  isLive: boolean,
+  callbacks: PlaybackEngineCallbacks = {}
+): PlaybackEngine {
+  let player: mpegts.Player | null = null;
+  let reconnects = 0;
+  let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+  let lastTime = -1;
+  let lastProgressAt = Date.now();
+  let destroyed = false;
+
+  const destroyPlayer = () => {
+    if (!player) return;
+    player.pause();
+    player.unload();
+    player.detachMediaElement();
+    player.destroy();
+    player = null;
+  };
+
+  const createPlayer = () => {
+    player = mpegts.createPlayer(
+      { type: "mpegts", isLive, url },
+      {
+        enableWorker: true,
+        liveBufferLatencyChasing: isLive, // Skip ahead when the buffer falls far behind the live edge
+        autoCleanupSourceBuffer: true, // Keep memory flat on long-running channels
+      }
+    );
+
+    player.on(mpegts.Events.ERROR, (type: string, details: string) => {
+      console.warn(`[MPEG-TS] ${type}: ${details}`);
+      scheduleReconnect(`${type}: ${details}`);
+    });
+
+    player.attachMediaElement(video);
+    player.load();
+  };
+
+  const scheduleReconnect = (reason: string) => {
+    if (destroyed || reconnectTimeout) return;
+
+    if (reconnects >= MAX_RECONNECTS) {
+      console.error(`[MPEG-TS] Giving up after ${reconnects} reconnects: ${reason}`);
+      engine.destroy();
+      callbacks.onFatalError?.(reason);
+      return;
+    }
+
+    reconnects++;
+    console.warn(`[MPEG-TS] Reconnecting (${reconnects}/${MAX_RECONNECTS}): ${reason}`);
+    destroyPlayer();
+    reconnectTimeout = setTimeout(() => {
+      reconnectTimeout = undefined;
+      lastProgressAt = Date.now();
+      createPlayer();
+    }, RECONNECT_DELAY * reconnects);
+  };
+
+  // Live streams can stop sending data without an error, so watch the playhead
+  const stallInterval = setInterval(() => {
+    if (video.paused) {
+      lastProgressAt = Date.now();
+      return;
+    }
+
+    if (video.currentTime !== lastTime) {
+      lastTime = video.currentTime;
+      lastProgressAt = Date.now();
+      reconnects = 0;
+    } else if (isLive && Date.now() - lastProgressAt > STALL_TIMEOUT) {
+      scheduleReconnect("stream stalled");
+    }
+  }, STALL_CHECK_INTERVAL);
+
+  const getBufferedEnd = () => (video.buffered.length > 0 ? video.buffered.end(video.buffered.length - 1) : null);
+
+  const engine: PlaybackEngine = {
+    name: "MPEG-TS",
+    setQuality: () => undefined, // Single rendition
+    seekToLiveEdge: () => {
+      const bufferedEnd = getBufferedEnd();
+      if (bufferedEnd !== null) {
+        video.currentTime = Math.max(0, bufferedEnd - 1);
+      }
+    },
+    isBehindLiveEdge: () => {
+      const bufferedEnd = getBufferedEnd();
+      return isLive && bufferedEnd !== null && bufferedEnd - video.currentTime > LIVE_EDGE_TOLERANCE;
+    },
+    destroy: () => {
+      destroyed = true;
+      clearInterval(stallInterval);
+      clearTimeout(reconnectTimeout);
+      destroyPlayer();
+    },
+  };
+
+  createPlayer();
+  callbacks.onLiveChange?.(isLive);
+  return engine;
+}
@@ -0,0 +1,84 @@
+import { MediaTrack, PlaybackEngine, PlaybackEngineCallbacks } from "../types/playback";
+import { getTrackLabel } from "./trackSelection";
+import { EXTERNAL_SUBTITLE_TRACK_PREFIX } from "./subtitles";
+
+// AudioTrackList is missing from TypeScript's DOM types; Safari ships it, Chromium behind a flag
+interface AudioTrackLike {
+  enabled: boolean;
+  language: string;
+  label: string;
+}
+
+interface AudioTrackListLike extends EventTarget {
+  readonly length: number;
+  [index: number]: AudioTrackLike;
+}
+
+export type NativeTrackController = Required<Pick<PlaybackEngine, "setAudioTrack" | "setTextTrack" | "destroy">>;
+
+// Subtitles loaded from files are <track> elements the player manages itself
+const isSubtitleTrack = (track: TextTrack) =>
+  (track.kind === "subtitles" || track.kind === "captions") && !track.id.startsWith(EXTERNAL_SUBTITLE_TRACK_PREFIX);
+
+/**
+ * Lists the audio and text tracks the video element found in the media itself
+ * Only used without an engine, as hls.js and dash.js add text tracks of their own
+ */
+export function watchNativeTracks(
+  video: HTMLVideoElement,
+  callbacks: Pick<PlaybackEngineCallbacks, "onAudioTracks" | "onTextTracks">
+): NativeTrackController {
+  const audioTracks = (video as HTMLVideoElement & { audioTracks?: AudioTrackListLike }).audioTracks;
+  const textTracks = video.textTracks;
+
+  const reportAudioTracks = () => {
+    if (!audioTracks) return;
+    const tracks: MediaTrack[] = [];
+    let selected: number | null = null;
+    for (let i = 0; i < audioTracks.length; i++) {
+      const track = audioTracks[i];
+      tracks.push({ id: i, language: track.language || null, label: getTrackLabel(track.language, track.label, i) });
+      if (track.enabled && selected === null) selected = i;
+    }
+    callbacks.onAudioTracks?.(tracks, selected);
+  };
+
+  // Ids are indexes into video.textTracks, so metadata tracks leave gaps
+  const reportTextTracks = () => {
+    const tracks: MediaTrack[] = [];
+    let selected: number | null = null;
+    for (let i = 0; i < textTracks.length; i++) {
+      const track = textTracks[i];
+      if (!isSubtitleTrack(track)) continue;
+      tracks.push({ id: i, language: track.language || null, label: getTrackLabel(track.language, track.label, i) });
+      if (track.mode === "showing" && selected === null) selected = i;
+    }
+    callbacks.onTextTracks?.(tracks, selected);
+  };
+
+  const trackEvents = ["addtrack", "removetrack", "change"];
+  trackEvents.forEach((type) => audioTracks?.addEventListener(type, reportAudioTracks));
+  trackEvents.forEach((type) => textTracks.addEventListener(type, reportTextTracks));
+  reportAudioTracks();
+  reportTextTracks();
+
+  return {
+    setAudioTrack: (id) => {
+      if (!audioTracks) return;
+      for (let i = 0; i < audioTracks.length; i++) {
+        audioTracks[i].enabled = i === id;
+      }
+    },
+    setTextTrack: (id) => {
+      for (let i = 0; i < textTracks.length; i++) {
+        if (isSubtitleTrack(textTracks[i])) {
+          textTracks[i].mode = i === id ? "showing" : "disabled";
+        }
+      }
+    },
+    destroy: () => {
+      trackEvents.forEach((type) => audioTracks?.removeEventListener(type, reportAudioTracks));
+      trackEvents.forEach((type) => textTracks.removeEventListener(type, reportTextTracks));
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { ContentItem } from "../types/content";
+import {
+  MediaFormat,
+  PlaybackSupport,
+  StreamType,
+  checkCodecStrings,
+  checkNativePlayback,
+  getContainerFromContentType,
+  getStreamTypeFromUrl,
+  getUrlExtension,
+  probeFileFormat,
+  probeHlsCodecs,
+  probeStream,
+} from "./mediaCapabilities";
+import { PlexPlaybackSource } from "./plexPlayback";
+import { isHlsEngineSupported } from "./hlsPlayback";
+import { isDashEngineSupported } from "./dashPlayback";
+import { isMpegTsEngineSupported } from "./mpegtsPlayback";
+
+/**
+ * Picks the engine that plays an item before playback starts
+ *
+ * The stream is probed for its type and codecs, which are checked against
+ * MediaSource.isTypeSupported. Streams the browser can't decode go to mpv
+ * when running in Electron, instead of playing silently or failing first.
+ */
+
+export type PlaybackEngineKind = "native" | "hls" | "dash" | "mpegts" | "mpv";
+
+export interface PlaybackPlan {
+  url: string;
+  streamType: StreamType;
+  engine: PlaybackEngineKind;
+  reason: string | null; // Why the browser can't play it, shown in the player
+}
+
+// Engines that play each stream type in the browser, with their availability check
+const STREAM_ENGINES: Record<Exclude<StreamType, "file">, { name: string; isSupported: () => boolean }> = {
+  hls: { name: "HLS", isSupported: isHlsEngineSupported },
+  dash: { name: "DASH", isSupported: isDashEngineSupported },
+  mpegts: { name: "MPEG-TS", isSupported: isMpegTsEngineSupported },
+};
+
+// Safari and some smart TV browsers play HLS in <video> without Media Source Extensions
+const canPlayHlsNatively = () =>
+  typeof document !== "undefined" && document.createElement("video").canPlayType("application/vnd.apple.mpegurl") !== "";
+
+/**
+ * Checks the codecs of a stream, probing them when the item doesn't list them
+ */
+async function checkStreamSupport(
+  item: ContentItem,
+  source: PlexPlaybackSource,
+  streamType: StreamType,
+  contentType: string | null,
+  signal?: AbortSignal
+): Promise<PlaybackSupport> {
+  // Plex transcodes are encoded for the browser
+  if (source.transcoding) {
+    return { playable: true, reason: null };
+  }
+
+  if (streamType === "hls") {
+    return checkCodecStrings(await probeHlsCodecs(source.url, signal));
+  }
+
+  if (streamType !== "file") {
+    return { playable: true, reason: null };
+  }
+
+  const format: MediaFormat = {
+    container: getUrlExtension(source.url) || getContainerFromContentType(contentType) || undefined,
+    videoCodec: item.videoCodec,
+    audioCodec: item.audioCodec,
+  };
+
+  // Server metadata (Plex) is trusted; other sources are read from the file header
+  if (!format.videoCodec && !format.audioCodec) {
+    const header = await probeFileFormat(source.url, signal);
+    format.container = format.container || header.container;
+    format.videoCodec = header.videoCodec;
+    format.audioCodec = header.audioCodec;
+  }
+
+  return checkNativePlayback(format);
+}
+
+/**
+ * Works out the stream type and codecs of an item and picks the engine for it
+ * mpv is only picked in Electron; elsewhere the browser tries anyway and the reason
+ * is kept for the error screen
+ */
+export async function resolvePlaybackPlan(
+  item: ContentItem,
+  source: PlexPlaybackSource,
+  signal?: AbortSignal
+): Promise<PlaybackPlan> {
+  const hasMpv = !!window.electron?.mpv;
+
+  const urlType = source.transcoding ? "hls" : getStreamTypeFromUrl(source.url);
+  const probe = urlType ? null : await probeStream(source.url, signal);
+  const streamType = urlType || probe?.type || "file";
+
+  const support = await checkStreamSupport(item, source, streamType, probe?.contentType || null, signal);
+  const plan = (engine: PlaybackEngineKind, reason: string | null): PlaybackPlan =>
+    ({ url: source.url, streamType, engine, reason });
+
+  if (!support.playable && hasMpv) {
+    return plan("mpv", support.reason);
+  }
+
+  if (streamType === "file") {
+    return plan("native", support.reason);
+  }
+
+  if (STREAM_ENGINES[streamType].isSupported()) {
+    return plan(streamType, support.reason);
+  }
+  if (streamType === "hls" && canPlayHlsNatively()) {
+    return plan("native", support.reason);
+  }
+
+  const reason = `${STREAM_ENGINES[streamType].name} streams aren't supported by this browser`;
+  return plan(hasMpv ? "mpv" : "native", reason);
+}
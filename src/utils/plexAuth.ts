@@ -0,0 +1,157 @@
+/**
+ * Plex.tv PIN sign-in and server discovery
+ *
+ * Flow:
+ * 1. createPlexPin() - get a short code the user enters at plex.tv/link
+ * 2. waitForPlexPin() - poll until the PIN is claimed and carries an auth token
+ * 3. fetchPlexServers() - list the account's servers and their connection URIs
+ *
+ * Set VITE_PLEX_TV_URL (e.g. http://localhost:8787) to run the flow against a local
+ * stand-in for plex.tv; the functions also take the base URL directly.
+ */
+
+import { delay } from "./syncManager";
+
+const PLEX_TV_URL: string = import.meta.env.VITE_PLEX_TV_URL || "https://plex.tv";
+const PLEX_LINK_URL = "https://plex.tv/link";
+const CLIENT_ID_KEY = "kedi_plex_client_id";
+const PIN_POLL_INTERVAL = 2000;
+
+export interface PlexPin {
+  id: number;
+  code: string;
+  expiresAt: number; // Timestamp
+  linkUrl: string; // Where the user enters the code
+}
+
+export interface PlexServerConnection {
+  uri: string;
+  local: boolean;
+  relay: boolean;
+}
+
+export interface PlexServerResource {
+  name: string;
+  clientIdentifier: string;
+  accessToken: string; // Token for this server (differs from the account token on shared servers)
+  owned: boolean;
+  connections: PlexServerConnection[]; // Local first, relays last
+}
+
+/**
+ * Identifies this Kedi install to Plex; the same id must be used to create and poll a PIN
+ */
+function getClientIdentifier(): string {
+  let clientId = localStorage.getItem(CLIENT_ID_KEY);
+  if (!clientId) {
+    clientId = `kedi-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    localStorage.setItem(CLIENT_ID_KEY, clientId);
+  }
+  return clientId;
+}
+
+/**
+ * Headers that identify Kedi as a Plex client, for plex.tv and Plex Media Server requests
+ */
+export function getPlexClientHeaders(): Record<string, string> {
+  return {
+    "X-Plex-Product": "Kedi",
+    "X-Plex-Client-Identifier": getClientIdentifier(),
+  };
+}
+
+/**
+ * Calls the plex.tv v2 API with the client headers Plex requires
+ */
+async function fetchPlexTv<T>(
+  path: string,
+  options: { method?: string; token?: string; baseUrl?: string; signal?: AbortSignal } = {}
+): Promise<T> {
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+    ...getPlexClientHeaders(),
+  };
+  if (options.token) {
+    headers["X-Plex-Token"] = options.token;
+  }
+
+  const response = await fetch(`${(options.baseUrl || PLEX_TV_URL).replace(/\/$/, "")}${path}`, {
+    method: options.method || "GET",
+    headers,
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Plex.tv request failed: ${response.status} - ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Creates a sign-in PIN
+ */
+export async function createPlexPin(signal?: AbortSignal, baseUrl?: string): Promise<PlexPin> {
+  const pin = await fetchPlexTv<{ id: number; code: string; expiresIn?: number }>("/api/v2/pins", {
+    method: "POST",
+    baseUrl,
+    signal,
+  });
+
+  return {
+    id: pin.id,
+    code: pin.code,
+    expiresAt: Date.now() + (pin.expiresIn || 900) * 1000,
+    linkUrl: PLEX_LINK_URL,
+  };
+}
+
+/**
+ * Polls a PIN until the user claims it and resolves with the account token
+ * Rejects when the PIN expires or the signal is aborted
+ */
+export async function waitForPlexPin(pin: PlexPin, signal?: AbortSignal, baseUrl?: string): Promise<string> {
+  while (Date.now() < pin.expiresAt) {
+    const status = await fetchPlexTv<{ authToken: string | null }>(`/api/v2/pins/${pin.id}`, { baseUrl, signal });
+    if (status.authToken) {
+      return status.authToken;
+    }
+
+    await delay(PIN_POLL_INTERVAL, signal);
+  }
+
+  throw new Error("The sign-in code expired, please try again");
+}
+
+/**
+ * Lists the Plex Media Servers the account can access
+ */
+export async function fetchPlexServers(
+  accountToken: string,
+  signal?: AbortSignal,
+  baseUrl?: string
+): Promise<PlexServerResource[]> {
+  const resources = await fetchPlexTv<any[]>("/api/v2/resources?includeHttps=1&includeRelay=1", {
+    token: accountToken,
+    baseUrl,
+    signal,
+  });
+
+  return resources
+    .filter((resource) => (resource.provides || "").split(",").includes("server"))
+    .map((resource) => ({
+      name: resource.name,
+      clientIdentifier: resource.clientIdentifier,
+      accessToken: resource.accessToken || accountToken,
+      owned: !!resource.owned,
+      connections: (resource.connections || [])
+        .map((connection: any) => ({
+          uri: connection.uri,
+          local: !!connection.local,
+          relay: !!connection.relay,
+        }))
+        .sort((a: PlexServerConnection, b: PlexServerConnection) =>
+          Number(a.relay) - Number(b.relay) || Number(b.local) - Number(a.local)
+        ),
+    }));
+}
@@ -0,0 +1,172 @@
+import { ContentItem } from "../types/content";
+import { AppSettings, PlexServer, loadSettings } from "./settings";
+import { getPlexClientHeaders } from "./plexAuth";
+import { checkNativePlayback, getUrlExtension } from "./mediaCapabilities";
+
+/**
+ * Playback of Plex items
+ *
+ * - resolvePlexPlayback() picks direct play or Plex's HLS transcode for an item
+ * - Timeline updates keep Plex's resume position ("viewOffset") current
+ * - A scrobble marks the item watched once playback passes PLEX_SCROBBLE_PERCENT
+ */
+
+export type PlexPlaybackState = "playing" | "paused" | "stopped";
+
+export interface PlexPlaybackSource {
+  url: string;
+  transcoding: boolean;
+  reason: string | null; // Why the item is transcoded
+  session: string | null; // Transcode session, for stopPlexTranscode()
+}
+
+export const PLEX_TIMELINE_INTERVAL = 10000; // Milliseconds between timeline updates while playing
+const PLEX_SCROBBLE_PERCENT = 90; // Plex's own watched threshold
+
+// Items already marked watched during this playback
+const scrobbledItems = new Set<number>();
+
+/**
+ * Finds the configured server an item was synced from
+ */
+function findPlexServer(item: ContentItem): PlexServer | undefined {
+  return loadSettings().plexServers.find((server) => {
+    const plexUrl = server.url.replace(/\/$/, "");
+    return server.token && item.url.startsWith(`${plexUrl}/`) && item.url.endsWith(`X-Plex-Token=${server.token}`);
+  });
+}
+
+/**
+ * Builds the universal transcode URL for an item, streamed as HLS
+ */
+function getTranscodeUrl(item: ContentItem, server: PlexServer, maxBitrate: number, session: string): string {
+  const params = new URLSearchParams({
+    path: `/library/metadata/${item.remoteId}`,
+    mediaIndex: "0",
+    partIndex: "0",
+    protocol: "hls",
+    fastSeek: "1",
+    directPlay: "0",
+    directStream: "1", // Copy streams the browser can decode instead of re-encoding them
+    videoQuality: "100",
+    session,
+    "X-Plex-Platform": "Chrome",
+    "X-Plex-Session-Identifier": session,
+    ...getPlexClientHeaders(),
+    "X-Plex-Token": server.token,
+  });
+
+  if (maxBitrate > 0) {
+    params.set("maxVideoBitrate", maxBitrate.toString());
+  }
+
+  return `${server.url.replace(/\/$/, "")}/video/:/transcode/universal/start.m3u8?${params}`;
+}
+
+/**
+ * Picks how to play a Plex item: the file as-is, or transcoded by the server
+ * In "auto" mode items are transcoded when the browser can't decode their codecs,
+ * or when they exceed the maximum bitrate
+ */
+export function resolvePlexPlayback(item: ContentItem, settings: AppSettings = loadSettings()): PlexPlaybackSource {
+  const direct: PlexPlaybackSource = { url: item.url, transcoding: false, reason: null, session: null };
+
+  const server = item.source === "Plex" && item.remoteId ? findPlexServer(item) : undefined;
+  if (!server || settings.plexPlaybackMode === "directPlay") {
+    return direct;
+  }
+
+  let reason: string | null = null;
+  if (settings.plexPlaybackMode === "transcode") {
+    reason = "Transcoding is turned on in Settings";
+  } else {
+    const support = checkNativePlayback({
+      container: getUrlExtension(item.url) || undefined,
+      videoCodec: item.videoCodec,
+      audioCodec: item.audioCodec,
+    });
+    if (!support.playable) {
+      reason = support.reason;
+    } else if (settings.plexMaxBitrate > 0 && item.bitrate && item.bitrate > settings.plexMaxBitrate) {
+      reason = `${Math.round(item.bitrate / 1000)} Mbps is above the maximum bitrate`;
+    }
+  }
+
+  if (!reason) {
+    return direct;
+  }
+
+  const session = `kedi-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  return {
+    url: getTranscodeUrl(item, server, settings.plexMaxBitrate, session),
+    transcoding: true,
+    reason,
+    session,
+  };
+}
+
+/**
+ * Ends a transcode session so the server stops encoding
+ */
+export async function stopPlexTranscode(item: ContentItem, session: string): Promise<void> {
+  await sendPlexRequest(item, "/video/:/transcode/universal/stop", { session });
+}
+
+/**
+ * Sends a request to the item's server; failures are logged, never thrown, so playback is not affected
+ */
+async function sendPlexRequest(item: ContentItem, path: string, params: Record<string, string>): Promise<void> {
+  const server = findPlexServer(item);
+  if (!server || !item.remoteId) return;
+
+  const query = new URLSearchParams({ ...params, "X-Plex-Token": server.token });
+
+  try {
+    const response = await fetch(`${server.url.replace(/\/$/, "")}${path}?${query}`, {
+      headers: {
+        Accept: "application/json",
+        ...getPlexClientHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`${response.status} - ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error(`[Plex] ${path} failed for ${item.name}:`, error);
+  }
+}
+
+/**
+ * Reports the playback position of a Plex item, marking it watched near the end
+ * Times are in seconds; items from other sources are ignored
+ */
+export async function reportPlexProgress(
+  item: ContentItem,
+  state: PlexPlaybackState,
+  currentTime: number,
+  duration: number
+): Promise<void> {
+  if (item.source !== "Plex" || !item.remoteId || !(duration > 0)) return;
+
+  const ratingKey = item.remoteId;
+  await sendPlexRequest(item, "/:/timeline", {
+    ratingKey,
+    key: `/library/metadata/${ratingKey}`,
+    state,
+    time: Math.round(currentTime * 1000).toString(),
+    duration: Math.round(duration * 1000).toString(),
+  });
+
+  const progress = (currentTime / duration) * 100;
+  if (progress < PLEX_SCROBBLE_PERCENT) {
+    // Seeking back before the threshold allows marking it watched again
+    scrobbledItems.delete(item.id);
+  } else if (!scrobbledItems.has(item.id)) {
+    scrobbledItems.add(item.id);
+    await sendPlexRequest(item, "/:/scrobble", {
+      identifier: "com.plexapp.plugins.library",
+      key: ratingKey,
+    });
+  }
+}
@@ -1,16 +1,38 @@
-import { ContentItem } from "../types/content";
-import { loadSettings, saveSettings } from "./settings";
+import { ContentItem, MediaMarker, RemoteWatchState } from "../types/content";
+import { SourceAdapter, SyncResult } from "../types/source";
+import { PlexServer, loadSettings, saveSettings } from "./settings";
 import { clearCache } from "./dataLoader";
-
-const PLEX_DATA_KEY = "kedi_plex_data";
-
-export interface SyncResult {
-  success: boolean;
-  message: string;
-  itemCount?: number;
+import { createCatalogStore } from "./catalogStorage";
+import { normalizeLanguage } from "./m3uParser";
+import { importWatchState } from "./watchHistory";
+
+// Catalogs saved before IndexedDB storage are migrated on first load
+const LEGACY_PLEX_DATA_KEY = "kedi_plex_data";
+
+const plexCatalog = createCatalogStore("plex", "Plex catalog cache for Kedi TV", {
+  load: async () => {
+    const stored = localStorage.getItem(LEGACY_PLEX_DATA_KEY);
+    return stored ? JSON.parse(stored) : null;
+  },
+  clear: async () => localStorage.removeItem(LEGACY_PLEX_DATA_KEY),
+});
+
+const PLEX_ID_OFFSET = 10000000000000; // Above the IPTV and Xtream ranges, below Jellyfin
+const PLEX_SERVER_ID_RANGE = 10000000000; // Ids of each server (offset + ratingKey), by its idSlot
+const PLEX_CONCURRENCY = 4; // Parallel season and metadata requests
+const METADATA_BATCH_SIZE = 50; // Items per /library/metadata request
+const LISTING_PROGRESS = 10; // Percent of a sync spent listing libraries
+const EPISODES_PROGRESS = 50; // Percent reached once changed shows are listed
+const PLEX_EPISODE_TYPE = 4; // Metadata type for listing every episode of a library
+
+export interface PlexSyncData {
+  items: ContentItem[];
+  updatedShowCount: number;
+  removedCount: number;
+  watchStates: RemoteWatchState[];
 }
 
-interface PlexLibrary {
+export interface PlexLibrary {
   key: string;
   title: string;
   type: string; // "movie" or "show"
@@ -18,6 +40,7 @@ interface PlexLibrary {
 
 interface PlexMediaItem {
   key: string;
+  ratingKey?: string;
   title: string;
   year?: number;
   thumb?: string;
@@ -28,49 +51,146 @@ interface PlexMediaItem {
   parentTitle?: string; // For episodes, this is the show name
   index?: number; // season or episode number
   parentIndex?: number; // season number for episodes
+  leafCount?: number; // episode count, for shows
+  addedAt?: number; // Unix seconds
+  updatedAt?: number; // Unix seconds
+  viewOffset?: number; // Resume position in milliseconds
+  viewCount?: number; // Times played to the end
+  lastViewedAt?: number; // Unix seconds
+  Genre?: Array<{ tag: string }>;
+  Marker?: Array<{
+    type: string; // "intro", "credits", "commercial"
+    startTimeOffset: number; // Milliseconds
+    endTimeOffset: number; // Milliseconds
+  }>; // Only in /library/metadata responses with includeMarkers
   Media?: Array<{
     id: string;
     duration?: number;
+    bitrate?: number; // kbps
     videoResolution?: string;
+    videoCodec?: string;
+    audioCodec?: string;
     Part?: Array<{
         key: string;
+        Stream?: PlexStream[]; // Only in /library/metadata responses
     }>;
   }>;
 }
 
+interface PlexStream {
+  streamType: number; // 1 video, 2 audio, 3 subtitle
+  key?: string; // Sidecar subtitle files only, e.g. "/library/streams/123"
+  codec?: string;
+  displayTitle?: string; // e.g. "English (SRT External)"
+  languageCode?: string; // ISO 639-2, e.g. "tur"
+  language?: string;
+  selected?: boolean;
+  default?: boolean;
+}
+
 /**
- * Validates that the data is a valid ContentItem array
+ * Stream metadata recorded on Plex items
  */
-function validatePlexData(data: any): data is ContentItem[] {
-  if (!Array.isArray(data)) {
-    return false;
-  }
+type PlexStreamInfo = Pick<
+  ContentItem,
+  "language" | "audioLanguages" | "subtitleLanguages" | "videoCodec" | "audioCodec" | "subtitles"
+>;
+
+// Sidecar subtitle formats the player converts to WebVTT; image formats (PGS, VobSub) can't be
+const TEXT_SUBTITLE_CODECS = ["srt", "subrip", "ass", "ssa", "vtt", "webvtt"];
 
-  if (data.length === 0) {
-    return true; // Empty array is valid
+/**
+ * Plex item id, from ratingKey or the digits of the metadata key
+ */
+function getRatingKey(item: PlexMediaItem): string {
+  return item.ratingKey || item.key.replace(/\D/g, "");
+}
+
+/**
+ * Maps a stream language to the language codes used by filters, keeping unknown codes as-is
+ */
+function getStreamLanguage(stream: PlexStream): string | null {
+  return normalizeLanguage(stream.languageCode) || normalizeLanguage(stream.language) || stream.languageCode?.toLowerCase() || null;
+}
+
+/**
+ * Reads languages, codecs and sidecar subtitles from the streams of the first media part
+ * The selected (or default, or first) audio stream is the primary language
+ * Pass isDetailed for /library/metadata responses, where missing streams mean there are none
+ */
+function getStreamInfo(item: PlexMediaItem, plexUrl: string, plexToken: string, isDetailed: boolean): PlexStreamInfo {
+  const media = item.Media?.[0];
+  const streams = media?.Part?.[0]?.Stream;
+
+  if (!streams) {
+    // Listing responses have no streams; leaving the languages unset refetches them next sync
+    if (!isDetailed) {
+      return { language: null, videoCodec: media?.videoCodec, audioCodec: media?.audioCodec };
+    }
+    // Fetched, nothing found: empty lists keep the item from being refetched every sync
+    return {
+      language: null,
+      audioLanguages: [],
+      subtitleLanguages: [],
+      videoCodec: media?.videoCodec,
+      audioCodec: media?.audioCodec,
+      subtitles: [],
+    };
   }
 
-  const sample = data[0];
-  return (
-    typeof sample === "object" &&
-    sample !== null &&
-    "id" in sample &&
-    "name" in sample &&
-    "type" in sample &&
-    "source" in sample
-  );
+  const audioStreams = streams.filter((stream) => stream.streamType === 2);
+  const subtitleStreams = streams.filter((stream) => stream.streamType === 3);
+  const primaryAudio = audioStreams.find((stream) => stream.selected) ||
+    audioStreams.find((stream) => stream.default) ||
+    audioStreams[0];
+
+  const uniqueLanguages = (list: PlexStream[]) =>
+    Array.from(new Set(list.map(getStreamLanguage).filter(Boolean))) as string[];
+
+  return {
+    language: primaryAudio ? getStreamLanguage(primaryAudio) : null,
+    audioLanguages: uniqueLanguages(audioStreams),
+    subtitleLanguages: uniqueLanguages(subtitleStreams),
+    videoCodec: streams.find((stream) => stream.streamType === 1)?.codec || media?.videoCodec,
+    audioCodec: primaryAudio?.codec || media?.audioCodec,
+    subtitles: subtitleStreams
+      .filter((stream) => stream.key && TEXT_SUBTITLE_CODECS.includes(stream.codec?.toLowerCase() || ""))
+      .map((stream, index) => ({
+        url: `${plexUrl}${stream.key}?X-Plex-Token=${plexToken}`,
+        language: getStreamLanguage(stream),
+        label: stream.displayTitle || stream.language || `Subtitle ${index + 1}`,
+      })),
+  };
+}
+
+/**
+ * Reads the intro and credits markers of an item
+ */
+function getMarkers(item: PlexMediaItem): MediaMarker[] {
+  return (item.Marker || [])
+    .filter((marker) => marker.type === "intro" || marker.type === "credits")
+    .map((marker) => ({
+      type: marker.type as MediaMarker["type"],
+      start: marker.startTimeOffset / 1000,
+      end: marker.endTimeOffset / 1000,
+    }));
 }
 
 /**
  * Normalizes Plex media item to ContentItem
+ * Pass the /library/metadata response for the item so stream metadata and markers are included
  */
 function normalizePlexItem(
-  item: PlexMediaItem,
+  listed: PlexMediaItem,
+  details: PlexMediaItem | undefined, // Unset when the metadata request failed
   plexUrl: string,
   plexToken: string,
   idOffset: number,
-  showTitle?: string // Optional show title for episodes
+  library: PlexLibrary,
+  show?: PlexMediaItem // The show, for episodes
 ): ContentItem | null {
+  const item = details || listed;
+
   // Skip seasons, we only want episodes
   if (item.type === "season") {
     return null;
@@ -104,16 +224,20 @@ function normalizePlexItem(
   // For episodes, use the show title; for movies and shows, use the item title
   let name = item.title;
   if (item.type === "episode") {
-    name = showTitle || item.parentTitle || item.title;
+    name = show?.title || item.parentTitle || item.title;
   }
 
+  const ratingKey = getRatingKey(item);
+
+  // Episodes carry no genres, so they use the show's
+  const genres = item.Genre?.length ? item.Genre : show?.Genre;
+
   return {
-    id: idOffset + parseInt(item.key.replace(/\D/g, "") || "0"),
+    id: idOffset + parseInt(ratingKey || "0"),
     name: name,
-    language: null, // Plex doesn't easily expose primary language
     media: "On Demand",
     type: type,
-    category: null,
+    category: genres?.[0]?.tag || null,
     quality: quality,
     platform: "Plex",
     year: item.year?.toString() || null,
@@ -122,41 +246,64 @@ function normalizePlexItem(
     logo: thumbUrl,
     url: streamUrl,
     source: "Plex",
+    remoteId: ratingKey,
+    remoteParentId: show ? getRatingKey(show) : undefined,
+    library: library.title,
+    bitrate: item.Media?.[0]?.bitrate,
+    ...getStreamInfo(item, plexUrl, plexToken, !!details),
+    // Listing responses have no markers, so they are left unset until the details load
+    markers: details ? getMarkers(details) : undefined,
   };
 }
 
 /**
- * Fetches all libraries from Plex server
+ * Fetches the movie and TV show libraries of a Plex server
+ * Also used to test the connection from Settings
  */
-async function fetchPlexLibraries(plexUrl: string, plexToken: string): Promise<PlexLibrary[]> {
-  const response = await fetch(`${plexUrl}/library/sections?X-Plex-Token=${plexToken}`, {
+export async function fetchPlexLibraries(plexUrl: string, plexToken: string, signal?: AbortSignal): Promise<PlexLibrary[]> {
+  const response = await fetch(`${plexUrl.replace(/\/$/, "")}/library/sections?X-Plex-Token=${plexToken}`, {
+    signal,
     headers: {
       Accept: "application/json",
     },
   });
 
   if (!response.ok) {
-    throw new Error(`Failed to fetch Plex libraries: ${response.statusText}`);
+    throw new Error(`Failed to fetch Plex libraries: ${response.status} - ${response.statusText}`);
   }
 
   const data = await response.json();
   const directories = data.MediaContainer?.Directory || [];
 
   // Filter for movie and TV show libraries
-  return directories.filter((lib: any) => lib.type === "movie" || lib.type === "show");
+  return directories
+    .filter((lib: any) => lib.type === "movie" || lib.type === "show")
+    .map((lib: any) => ({ key: lib.key, title: lib.title, type: lib.type }));
+}
+
+/**
+ * Checks if a library is included in sync (libraries not discovered yet are)
+ */
+function isLibraryIncluded(server: PlexServer, library: PlexLibrary): boolean {
+  return server.libraries.find((selection) => selection.key === library.key)?.enabled !== false;
 }
 
 /**
  * Fetches all items from a specific Plex library
+ * Pass a metadata type to list items below the top level, e.g. every episode of a show library
  */
 async function fetchPlexLibraryItems(
   plexUrl: string,
   plexToken: string,
-  libraryKey: string
+  libraryKey: string,
+  signal?: AbortSignal,
+  type?: number
 ): Promise<PlexMediaItem[]> {
+  const typeParam = type !== undefined ? `&type=${type}` : "";
   const response = await fetch(
-    `${plexUrl}/library/sections/${libraryKey}/all?X-Plex-Token=${plexToken}`,
+    `${plexUrl}/library/sections/${libraryKey}/all?X-Plex-Token=${plexToken}${typeParam}`,
     {
+      signal,
       headers: {
         Accept: "application/json",
       },
@@ -172,209 +319,432 @@ async function fetchPlexLibraryItems(
 }
 
 /**
- * Fetches all seasons for a TV show
+ * Fetches the children of a show (seasons) or season (episodes)
  */
-async function fetchShowSeasons(
+async function fetchPlexChildren(
   plexUrl: string,
   plexToken: string,
-  showKey: string
+  parentKey: string,
+  signal?: AbortSignal
 ): Promise<PlexMediaItem[]> {
   // Remove /children suffix if it exists to avoid double /children/children
-  const cleanKey = showKey.replace(/\/children$/, '');
+  const cleanKey = parentKey.replace(/\/children$/, '');
 
-  try {
-    const response = await fetch(`${plexUrl}${cleanKey}/children?X-Plex-Token=${plexToken}`, {
-      headers: {
-        Accept: "application/json",
-      },
-    });
+  const response = await fetch(`${plexUrl}${cleanKey}/children?X-Plex-Token=${plexToken}`, {
+    signal,
+    headers: {
+      Accept: "application/json",
+    },
+  });
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch show seasons (${response.status}): ${response.statusText}`);
-    }
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${cleanKey} (${response.status}): ${response.statusText}`);
+  }
 
-    const data = await response.json();
-    return data.MediaContainer?.Metadata || [];
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Error fetching seasons for ${showKey}: ${error.message}`);
+  const data = await response.json();
+  return data.MediaContainer?.Metadata || [];
+}
+
+/**
+ * Runs an async function over items with at most `limit` calls in flight
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
     }
-    throw error;
-  }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
 /**
- * Fetches all episodes for a specific season
+ * Fetches all episodes for a TV show, loading its seasons in parallel
  */
-async function fetchSeasonEpisodes(
+async function fetchShowEpisodes(
   plexUrl: string,
   plexToken: string,
-  seasonKey: string
+  showKey: string,
+  signal?: AbortSignal
 ): Promise<PlexMediaItem[]> {
-  // Remove /children suffix if it exists to avoid double /children/children
-  const cleanKey = seasonKey.replace(/\/children$/, '');
-
-  try {
-    const response = await fetch(`${plexUrl}${cleanKey}/children?X-Plex-Token=${plexToken}`, {
-      headers: {
-        Accept: "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch season episodes (${response.status}): ${response.statusText}`);
+  const seasons = (await fetchPlexChildren(plexUrl, plexToken, showKey, signal))
+    .filter((season) => season.type === "season");
+
+  const episodesBySeason = await mapWithConcurrency(seasons, PLEX_CONCURRENCY, async (season) => {
+    signal?.throwIfAborted();
+    try {
+      return await fetchPlexChildren(plexUrl, plexToken, season.key, signal);
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.error(`Failed to fetch episodes for season ${season.title}:`, error);
+      return [];
     }
+  });
 
-    const data = await response.json();
-    return data.MediaContainer?.Metadata || [];
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Error fetching episodes for ${seasonKey}: ${error.message}`);
-    }
-    throw error;
-  }
+  return episodesBySeason.flat();
 }
 
 /**
- * Fetches all episodes for a TV show by iterating through seasons
+ * Fetches full metadata, including media streams and markers, for items by rating key
+ * Keys are requested in batches; a failed batch is left out of the result
  */
-async function fetchShowEpisodes(
+async function fetchPlexMetadata(
   plexUrl: string,
   plexToken: string,
-  showKey: string
-): Promise<PlexMediaItem[]> {
-  const seasons = await fetchShowSeasons(plexUrl, plexToken, showKey);
-  const allEpisodes: PlexMediaItem[] = [];
+  ratingKeys: string[],
+  signal?: AbortSignal,
+  onBatch?: (done: number, total: number) => void
+): Promise<Map<string, PlexMediaItem>> {
+  const batches: string[][] = [];
+  for (let i = 0; i < ratingKeys.length; i += METADATA_BATCH_SIZE) {
+    batches.push(ratingKeys.slice(i, i + METADATA_BATCH_SIZE));
+  }
 
-  for (const season of seasons) {
-    if (season.type === "season") {
-      try {
-        const episodes = await fetchSeasonEpisodes(plexUrl, plexToken, season.key);
-        allEpisodes.push(...episodes);
-      } catch (error) {
-        console.error(`Failed to fetch episodes for season ${season.title}:`, error);
+  const details = new Map<string, PlexMediaItem>();
+  let done = 0;
+
+  await mapWithConcurrency(batches, PLEX_CONCURRENCY, async (batch) => {
+    signal?.throwIfAborted();
+    try {
+      const response = await fetch(`${plexUrl}/library/metadata/${batch.join(",")}?includeMarkers=1&X-Plex-Token=${plexToken}`, {
+        signal,
+        headers: {
+          Accept: "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status} - ${response.statusText}`);
       }
+
+      const data = await response.json();
+      for (const item of (data.MediaContainer?.Metadata || []) as PlexMediaItem[]) {
+        details.set(getRatingKey(item), item);
+      }
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.error(`Failed to fetch Plex metadata for ${batch.length} items:`, error);
     }
-  }
+    onBatch?.(++done, batches.length);
+  });
 
-  return allEpisodes;
+  return details;
 }
 
 /**
- * Fetches all content from Plex server
+ * Checks if a cached item was synced with stream metadata, subtitles and markers
  */
-export async function fetchPlexData(
-  plexUrl: string,
-  plexToken: string,
-  onProgress?: (message: string) => void
-): Promise<ContentItem[]> {
-  // Remove trailing slash from URL
-  plexUrl = plexUrl.replace(/\/$/, "");
+function hasDetails(item: ContentItem): boolean {
+  return item.audioLanguages !== undefined && item.subtitles !== undefined && item.markers !== undefined;
+}
 
-  onProgress?.("Fetching Plex libraries...");
+/**
+ * Checks if a show changed on the server since the last sync
+ * A changed episode count also catches additions and deletions that do not touch updatedAt
+ * Shows cached before stream metadata and markers were recorded count as changed
+ */
+function isShowChanged(show: PlexMediaItem, cachedEpisodes: ContentItem[], lastSyncTime: number): boolean {
+  if (cachedEpisodes.length === 0) return true;
+  if (show.leafCount !== undefined && show.leafCount !== cachedEpisodes.length) return true;
+  if (!cachedEpisodes.every(hasDetails)) return true;
 
-  // Fetch all libraries
-  const libraries = await fetchPlexLibraries(plexUrl, plexToken);
+  return getChangedAt(show) > lastSyncTime;
+}
+
+/**
+ * Time an item last changed on the server, in milliseconds
+ */
+function getChangedAt(item: PlexMediaItem): number {
+  return Math.max(item.updatedAt || 0, item.addedAt || 0) * 1000;
+}
+
+/**
+ * Reads the watch state of a synced item from its Plex listing entry
+ * Returns null for items never played
+ */
+function getWatchState(item: ContentItem, listed: PlexMediaItem): RemoteWatchState | null {
+  if (!listed.lastViewedAt || (!listed.viewOffset && !listed.viewCount)) return null;
+
+  return {
+    content: item,
+    currentTime: (listed.viewOffset || 0) / 1000,
+    duration: (listed.Media?.[0]?.duration || 0) / 1000,
+    lastWatched: listed.lastViewedAt * 1000,
+    watched: (listed.viewCount || 0) > 0,
+  };
+}
+
+/**
+ * First id of a server's range, stable when other servers are added, removed or reordered
+ */
+function getServerIdOffset(server: PlexServer): number {
+  return PLEX_ID_OFFSET + server.idSlot * PLEX_SERVER_ID_RANGE;
+}
+
+/**
+ * Gives a cached item the id it gets in its server's range
+ * Items cached before per-server ranges were stored with other ids
+ */
+function withServerId(item: ContentItem, server: PlexServer): ContentItem {
+  const id = getServerIdOffset(server) + parseInt(item.remoteId || "0");
+  return item.id === id ? item : { ...item, id };
+}
+
+/**
+ * Checks if a cached item was loaded from the given server with the given token
+ */
+function isFromServer(item: ContentItem, plexUrl: string, plexToken: string): boolean {
+  return item.url.startsWith(`${plexUrl}/`) && item.url.endsWith(`X-Plex-Token=${plexToken}`);
+}
+
+/**
+ * Fetches the included libraries of a Plex server
+ * With a previous catalog, only shows changed since the last sync have their episodes refetched,
+ * and only new or changed items have their stream metadata and markers refetched
+ * Items no longer on the server are left out of the result
+ * Watch state comes from the listings, which are fetched every sync
+ */
+export async function fetchPlexData(
+  server: PlexServer,
+  onProgress?: (message: string, percent?: number) => void,
+  signal?: AbortSignal,
+  previous?: { items: ContentItem[]; lastSync: string | null }
+): Promise<PlexSyncData> {
+  // Remove trailing slash from URL
+  const plexUrl = server.url.replace(/\/$/, "");
+  const plexToken = server.token;
+  const idOffset = getServerIdOffset(server);
+
+  onProgress?.("Fetching Plex libraries...", 0);
+
+  const libraries = (await fetchPlexLibraries(plexUrl, plexToken, signal))
+    .filter((library) => isLibraryIncluded(server, library));
+
+  // Cached items can only be reused when they point at the same server and token
+  const lastSyncTime = previous?.lastSync ? new Date(previous.lastSync).getTime() : 0;
+  const previousItems = (previous?.items || [])
+    .filter((item) => isFromServer(item, plexUrl, plexToken))
+    .map((item) => withServerId(item, server));
+  const cachedMovies = new Map<string, ContentItem>();
+  const cachedEpisodes = new Map<string, ContentItem[]>();
+  for (const item of previousItems) {
+    if (!item.remoteParentId) {
+      if (item.remoteId) cachedMovies.set(item.remoteId, item);
+      continue;
+    }
+    const episodes = cachedEpisodes.get(item.remoteParentId) || [];
+    episodes.push(item);
+    cachedEpisodes.set(item.remoteParentId, episodes);
+  }
 
   const allItems: ContentItem[] = [];
-  let idOffset = 1000000; // Start with high ID to avoid conflicts with IPTV data
+  const changedShows: Array<{ show: PlexMediaItem; library: PlexLibrary }> = [];
+  // New and changed items, normalized once their stream metadata is fetched
+  const pending: Array<{ item: PlexMediaItem; library: PlexLibrary; show?: PlexMediaItem }> = [];
+  // Listing entries of movies and episodes by rating key, for their watch state
+  const listedItems = new Map<string, PlexMediaItem>();
 
-  // Fetch items from each library
+  // List each library; unchanged movies and shows reuse the cached items
   for (let i = 0; i < libraries.length; i++) {
     const library = libraries[i];
-    onProgress?.(`Processing library ${i + 1}/${libraries.length}: ${library.title}`);
+    onProgress?.(`Listing library ${i + 1}/${libraries.length}: ${library.title}`, Math.round((i / libraries.length) * LISTING_PROGRESS));
 
-    const items = await fetchPlexLibraryItems(plexUrl, plexToken, library.key);
+    const items = await fetchPlexLibraryItems(plexUrl, plexToken, library.key, signal);
+
+    if (library.type === "show") {
+      try {
+        const episodes = await fetchPlexLibraryItems(plexUrl, plexToken, library.key, signal, PLEX_EPISODE_TYPE);
+        episodes.forEach((episode) => listedItems.set(getRatingKey(episode), episode));
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.error(`Failed to fetch watch state for library ${library.title}:`, error);
+      }
+    }
 
     for (const item of items) {
       if (item.type === "movie") {
-        // Add movie directly
-        const normalizedItem = normalizePlexItem(item, plexUrl, plexToken, idOffset);
-        if (normalizedItem) {
-          allItems.push(normalizedItem);
-          idOffset++;
+        listedItems.set(getRatingKey(item), item);
+        const cached = cachedMovies.get(getRatingKey(item));
+        if (cached && hasDetails(cached) && getChangedAt(item) <= lastSyncTime) {
+          allItems.push(cached);
+        } else {
+          pending.push({ item, library });
         }
       } else if (item.type === "show") {
-        // Fetch all episodes for the show
-        try {
-          onProgress?.(`Fetching episodes for: ${item.title}`);
-          const episodes = await fetchShowEpisodes(plexUrl, plexToken, item.key);
-          for (const episode of episodes) {
-            const normalizedEpisode = normalizePlexItem(episode, plexUrl, plexToken, idOffset, item.title);
-            if (normalizedEpisode) {
-              allItems.push(normalizedEpisode);
-              idOffset++;
-            }
-          }
-        } catch (error) {
-          console.error(`Failed to fetch episodes for show ${item.title}:`, error);
+        const cached = cachedEpisodes.get(getRatingKey(item)) || [];
+        if (isShowChanged(item, cached, lastSyncTime)) {
+          changedShows.push({ show: item, library });
+        } else {
+          allItems.push(...cached);
         }
       }
     }
   }
 
-  onProgress?.(`Completed! Found ${allItems.length} items`);
-  return allItems;
+  // List episodes of new and changed shows
+  for (let i = 0; i < changedShows.length; i++) {
+    const { show, library } = changedShows[i];
+    const percent = LISTING_PROGRESS + Math.round((i / changedShows.length) * (EPISODES_PROGRESS - LISTING_PROGRESS));
+    onProgress?.(`Updating show ${i + 1}/${changedShows.length}: ${show.title}`, percent);
+
+    try {
+      signal?.throwIfAborted();
+      const episodes = await fetchShowEpisodes(plexUrl, plexToken, show.key, signal);
+      pending.push(...episodes.map((episode) => ({ item: episode, library, show })));
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.error(`Failed to fetch episodes for show ${show.title}:`, error);
+      // Keep the previous episodes rather than dropping the show
+      allItems.push(...(cachedEpisodes.get(getRatingKey(show)) || []));
+    }
+  }
+
+  // Fetch stream metadata (languages, codecs) and markers for new and changed items
+  onProgress?.(`Fetching details for ${pending.length} items...`, EPISODES_PROGRESS);
+  const details = await fetchPlexMetadata(
+    plexUrl,
+    plexToken,
+    pending.map(({ item }) => getRatingKey(item)),
+    signal,
+    (done, total) => onProgress?.(
+      `Fetching details for ${pending.length} items...`,
+      EPISODES_PROGRESS + Math.round((done / total) * (100 - EPISODES_PROGRESS))
+    )
+  );
+
+  for (const { item, library, show } of pending) {
+    // Items whose details failed to load keep the listing data, without streams
+    const normalizedItem = normalizePlexItem(item, details.get(getRatingKey(item)), plexUrl, plexToken, idOffset, library, show);
+    if (normalizedItem) {
+      allItems.push(normalizedItem);
+    }
+  }
+
+  const currentKeys = new Set(allItems.map((item) => item.remoteId));
+  const removedCount = previousItems.filter((item) => !currentKeys.has(item.remoteId)).length;
+
+  const watchStates: RemoteWatchState[] = [];
+  for (const item of allItems) {
+    const listed = item.remoteId ? listedItems.get(item.remoteId) : undefined;
+    const state = listed && getWatchState(item, listed);
+    if (state) {
+      watchStates.push(state);
+    }
+  }
+
+  onProgress?.(`Completed! Found ${allItems.length} items`, 100);
+  return { items: allItems, updatedShowCount: changedShows.length, removedCount, watchStates };
 }
 
 /**
- * Saves Plex data to localStorage
+ * Saves Plex data to IndexedDB
  */
-export function savePlexData(data: ContentItem[]): void {
-  try {
-    localStorage.setItem(PLEX_DATA_KEY, JSON.stringify(data));
-  } catch (error) {
-    console.error("Failed to save Plex data:", error);
-    throw error;
-  }
+export async function savePlexData(data: ContentItem[]): Promise<void> {
+  await plexCatalog.save(data);
 }
 
 /**
- * Loads Plex data from localStorage
+ * Loads Plex data from IndexedDB
  */
-export function loadPlexData(): ContentItem[] | null {
-  try {
-    const stored = localStorage.getItem(PLEX_DATA_KEY);
-    if (!stored) return null;
+export async function loadPlexData(): Promise<ContentItem[] | null> {
+  return plexCatalog.load();
+}
 
-    const data = JSON.parse(stored);
-    return validatePlexData(data) ? data : null;
-  } catch (error) {
-    console.error("Failed to load Plex data:", error);
-    return null;
-  }
+/**
+ * Clears Plex data from IndexedDB
+ */
+export async function clearPlexData(): Promise<void> {
+  await plexCatalog.clear();
 }
 
 /**
- * Clears Plex data from localStorage
+ * Lists the servers that are enabled and have a URL and token
  */
-export function clearPlexData(): void {
-  localStorage.removeItem(PLEX_DATA_KEY);
+function getActivePlexServers(servers: PlexServer[]): PlexServer[] {
+  return servers.filter((server) => server.enabled && server.url && server.token);
 }
 
 /**
- * Performs a sync operation: fetches and saves Plex data
+ * Performs a sync operation: fetches and saves Plex data from every enabled server
+ * A server that fails keeps its previous items, so one offline server does not empty the catalog
  */
 export async function syncPlexData(
-  plexUrl: string,
-  plexToken: string,
-  onProgress?: (message: string) => void
+  servers: PlexServer[],
+  onProgress?: (message: string, percent?: number) => void,
+  signal?: AbortSignal
 ): Promise<SyncResult> {
+  const activeServers = getActivePlexServers(servers);
+  if (activeServers.length === 0) {
+    return { success: false, message: "Add a Plex server with a URL and token first" };
+  }
+
   try {
-    const data = await fetchPlexData(plexUrl, plexToken, onProgress);
-    savePlexData(data);
+    const previous = {
+      items: (await loadPlexData()) || [],
+      lastSync: loadSettings().plexLastSync,
+    };
+
+    const data: ContentItem[] = [];
+    const watchStates: RemoteWatchState[] = [];
+    const failures: string[] = [];
+    let updatedShowCount = 0;
+    let removedCount = 0;
+
+    for (let i = 0; i < activeServers.length; i++) {
+      const server = activeServers[i];
+      const reportProgress = (message: string, percent?: number) => {
+        const label = activeServers.length > 1 ? `${server.name}: ${message}` : message;
+        onProgress?.(label, percent !== undefined ? Math.round(((i + percent / 100) / activeServers.length) * 100) : undefined);
+      };
+
+      try {
+        const result = await fetchPlexData(server, reportProgress, signal, previous);
+        data.push(...result.items);
+        watchStates.push(...result.watchStates);
+        updatedShowCount += result.updatedShowCount;
+        removedCount += result.removedCount;
+      } catch (error) {
+        signal?.throwIfAborted();
+        failures.push(`${server.name}: ${error instanceof Error ? error.message : "Unknown error"}`);
+        data.push(...previous.items
+          .filter((item) => isFromServer(item, server.url.replace(/\/$/, ""), server.token))
+          .map((item) => withServerId(item, server)));
+      }
+    }
+
+    if (failures.length === activeServers.length) {
+      throw new Error(failures.join("; "));
+    }
+
+    signal?.throwIfAborted();
+    await savePlexData(data);
 
     // Update last sync time
     const settings = loadSettings();
     settings.plexLastSync = new Date().toISOString();
     saveSettings(settings);
 
+    // Continue Watching picks up what was played in other Plex apps
+    importWatchState(watchStates);
+
     // Clear the data cache so new content appears immediately
     clearCache();
 
+    const summary = `${updatedShowCount} shows updated, ${removedCount} items removed`;
     return {
       success: true,
-      message: "Plex data synced successfully",
+      message: failures.length > 0
+        ? `Plex data synced with errors (${summary}). Failed: ${failures.join("; ")}`
+        : `Plex data synced successfully (${summary})`,
       itemCount: data.length,
     };
   } catch (error) {
@@ -385,48 +755,22 @@ export async function syncPlexData(
   }
 }
 
-/**
- * Checks if a sync is due based on settings
- */
-export function isSyncDue(): boolean {
-  const settings = loadSettings();
-
-  if (!settings.plexEnabled || !settings.plexAutoSync || !settings.plexUrl || !settings.plexToken) {
-    return false;
-  }
-
-  // If never synced, sync is due
-  if (!settings.plexLastSync) {
-    return true;
-  }
-
-  const lastSync = new Date(settings.plexLastSync);
-  const now = new Date();
-
-  // Check if enough days have passed
-  const daysSinceSync = Math.floor((now.getTime() - lastSync.getTime()) / (1000 * 60 * 60 * 24));
-
-  if (daysSinceSync < settings.plexSyncIntervalDays) {
-    return false;
-  }
-
-  // Check if we're past the scheduled time today
-  const [hours, minutes] = settings.plexSyncTime.split(":").map(Number);
-  const scheduledTime = new Date();
-  scheduledTime.setHours(hours, minutes, 0, 0);
-
-  return now >= scheduledTime;
-}
-
-/**
- * Performs auto-sync if due
- */
-export async function autoSyncIfDue(onProgress?: (message: string) => void): Promise<SyncResult | null> {
-  if (!isSyncDue()) {
-    return null;
-  }
-
-  const settings = loadSettings();
-  onProgress?.("Auto-syncing Plex library...");
-  return await syncPlexData(settings.plexUrl, settings.plexToken, onProgress);
-}
+export const plexAdapter: SourceAdapter = {
+  id: "plex",
+  displayName: "Plex",
+  description: "Connect your Plex Media Server to access your movies and TV shows",
+  settingsSchema: {
+    enabledKey: "plexEnabled",
+    fields: [], // Servers are edited in PlexServerSettings
+    schedule: {
+      autoSyncKey: "plexAutoSync",
+      syncIntervalDaysKey: "plexSyncIntervalDays",
+      syncTimeKey: "plexSyncTime",
+      lastSyncKey: "plexLastSync",
+    },
+  },
+  isConfigured: (settings) => getActivePlexServers(settings.plexServers).length > 0,
+  sync: (settings, options) => syncPlexData(settings.plexServers, options?.onProgress, options?.signal),
+  loadCachedItems: loadPlexData,
+  clearCache: clearPlexData,
+};
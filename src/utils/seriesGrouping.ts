@@ -120,3 +120,19 @@ export function getSortedSeasons(group: GroupedSeries): Array<{ season: string;
   
   return seasons;
 }
+
+/**
+ * Get the episode after an item in its show group, following the season order
+ * Returns null for the last episode and for items that aren't episodes
+ */
+export function getNextEpisode(item: ContentItem, items: ContentItem[]): ContentItem | null {
+  if (item.type !== "Series") return null;
+
+  const group = getGroupForItem(item, groupSeriesByShow(items.filter((candidate) => candidate.name === item.name)));
+  if (!group) return null;
+
+  // Seasons and episodes are sorted newest first
+  const episodes = getSortedSeasons(group).flatMap((season) => season.episodes).reverse();
+  const index = episodes.findIndex((episode) => episode.url === item.url);
+  return index >= 0 ? episodes[index + 1] || null : null;
+}
@@ -0,0 +1,41 @@
+import { ContentItem } from "../types/content";
+
+const SERIES_PREFERENCES_KEY = "kedi_series_preferences";
+
+export interface SeriesPreferences {
+  autoSkipIntro?: boolean;
+  audioLanguage?: string; // Picked in the player, overrides the language priority
+  subtitleLanguage?: string | null; // Picked in the player, null for off
+}
+
+/**
+ * Series are identified by name, like the series grouping on the pages
+ */
+const getSeriesKey = (item: ContentItem) => item.name;
+
+function loadAllSeriesPreferences(): Record<string, SeriesPreferences> {
+  try {
+    const stored = localStorage.getItem(SERIES_PREFERENCES_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Error loading series preferences:", error);
+    return {};
+  }
+}
+
+export function getSeriesPreferences(item: ContentItem): SeriesPreferences {
+  return loadAllSeriesPreferences()[getSeriesKey(item)] || {};
+}
+
+export function updateSeriesPreferences(item: ContentItem, changes: Partial<SeriesPreferences>): SeriesPreferences {
+  const all = loadAllSeriesPreferences();
+  const updated = { ...all[getSeriesKey(item)], ...changes };
+
+  try {
+    localStorage.setItem(SERIES_PREFERENCES_KEY, JSON.stringify({ ...all, [getSeriesKey(item)]: updated }));
+  } catch (error) {
+    console.error("Error saving series preferences:", error);
+  }
+
+  return updated;
+}
@@ -1,22 +1,82 @@
+export interface IPTVPlaylist {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  autoSync: boolean;
+  syncIntervalDays: number;
+  syncTime: string; // HH:MM format (24h)
+  lastSync: string | null; // ISO date string
+  itemCount: number | null; // Items found in the last successful sync
+  idSlot: number; // Picks the playlist's content id range, fixed for its lifetime
+}
+
+export interface PlexLibrarySelection {
+  key: string; // Library section key on the server
+  title: string;
+  type: string; // "movie" or "show"
+  enabled: boolean;
+}
+
+export type PlexPlaybackMode = "auto" | "directPlay" | "transcode";
+
+export type SubtitleSize = "small" | "medium" | "large";
+export type SubtitleBackground = "none" | "translucent" | "solid";
+export type SubtitlePosition = "bottom" | "top";
+
+export interface PlexServer {
+  id: string;
+  name: string;
+  url: string; // Plex server URL (e.g., http://192.168.1.100:32400)
+  token: string;
+  enabled: boolean;
+  libraries: PlexLibrarySelection[]; // Discovered libraries; libraries not listed here are synced
+  idSlot: number; // Picks the server's content id range, fixed for its lifetime
+}
+
 export interface AppSettings {
   languagePreferences: string[];
   iptvEnabled: boolean;
-  iptvUrl: string;
-  iptvAutoSync: boolean;
-  iptvSyncIntervalDays: number;
-  iptvSyncTime: string; // HH:MM format (24h)
-  iptvLastSync: string | null; // ISO date string
+  iptvPlaylists: IPTVPlaylist[];
   plexEnabled: boolean;
-  plexUrl: string; // Plex server URL (e.g., http://192.168.1.100:32400)
-  plexToken: string;
+  plexServers: PlexServer[];
   plexAutoSync: boolean;
   plexSyncIntervalDays: number;
   plexSyncTime: string; // HH:MM format (24h)
   plexLastSync: string | null; // ISO date string
+  plexPlaybackMode: PlexPlaybackMode; // "auto" transcodes only what the browser can't decode
+  plexMaxBitrate: number; // Transcode video bitrate limit in kbps, 0 for no limit
+  xtreamEnabled: boolean;
+  xtreamUrl: string; // Xtream Codes server URL (e.g., http://provider.example:8080)
+  xtreamUsername: string;
+  xtreamPassword: string;
+  xtreamAutoSync: boolean;
+  xtreamSyncIntervalDays: number;
+  xtreamSyncTime: string; // HH:MM format (24h)
+  xtreamLastSync: string | null; // ISO date string
+  jellyfinEnabled: boolean;
+  jellyfinUrl: string; // Jellyfin / Emby server URL (e.g., http://192.168.1.100:8096)
+  jellyfinApiKey: string;
+  jellyfinAutoSync: boolean;
+  jellyfinSyncIntervalDays: number;
+  jellyfinSyncTime: string; // HH:MM format (24h)
+  jellyfinLastSync: string | null; // ISO date string
+  epgEnabled: boolean;
+  epgUrl: string; // XMLTV guide URL (.xml or .xml.gz)
+  epgAutoSync: boolean;
+  epgSyncIntervalDays: number;
+  epgSyncTime: string; // HH:MM format (24h)
+  epgLastSync: string | null; // ISO date string
   tmdbEnabled: boolean;
   tmdbBearerToken: string;
   youtubeEnabled: boolean;
   youtubeApiKey: string;
+  subtitleSize: SubtitleSize;
+  subtitleColor: string; // CSS color
+  subtitleBackground: SubtitleBackground;
+  subtitlePosition: SubtitlePosition;
+  autoplayNextEpisode: boolean;
+  stillWatchingEpisodes: number; // Episodes played in a row before asking, 0 to never ask
   showLogo: boolean;
   showHome: boolean;
   showSeries: boolean;
@@ -30,22 +90,46 @@ const STORAGE_KEY = "kedi_app_settings";
 const DEFAULT_SETTINGS: AppSettings = {
   languagePreferences: ["eng"],
   iptvEnabled: false,
-  iptvUrl: "",
-  iptvAutoSync: false,
-  iptvSyncIntervalDays: 7,
-  iptvSyncTime: "03:00", // 3 AM by default
-  iptvLastSync: null,
+  iptvPlaylists: [],
   plexEnabled: false,
-  plexUrl: "",
-  plexToken: "",
+  plexServers: [],
   plexAutoSync: false,
   plexSyncIntervalDays: 7,
   plexSyncTime: "03:00", // 3 AM by default
   plexLastSync: null,
+  plexPlaybackMode: "auto",
+  plexMaxBitrate: 0,
+  xtreamEnabled: false,
+  xtreamUrl: "",
+  xtreamUsername: "",
+  xtreamPassword: "",
+  xtreamAutoSync: false,
+  xtreamSyncIntervalDays: 7,
+  xtreamSyncTime: "03:00", // 3 AM by default
+  xtreamLastSync: null,
+  jellyfinEnabled: false,
+  jellyfinUrl: "",
+  jellyfinApiKey: "",
+  jellyfinAutoSync: false,
+  jellyfinSyncIntervalDays: 7,
+  jellyfinSyncTime: "03:00", // 3 AM by default
+  jellyfinLastSync: null,
+  epgEnabled: false,
+  epgUrl: "",
+  epgAutoSync: false,
+  epgSyncIntervalDays: 1,
+  epgSyncTime: "04:00", // 4 AM by default
+  epgLastSync: null,
   tmdbEnabled: false,
   tmdbBearerToken: "",
   youtubeEnabled: false,
   youtubeApiKey: "",
+  subtitleSize: "medium",
+  subtitleColor: "#ffffff",
+  subtitleBackground: "translucent",
+  subtitlePosition: "bottom",
+  autoplayNextEpisode: true,
+  stillWatchingEpisodes: 3,
   showLogo: true,
   showHome: true,
   showSeries: true,
@@ -54,12 +138,117 @@ const DEFAULT_SETTINGS: AppSettings = {
   showRadio: true,
 };
 
+export function generatePlaylistId(): string {
+  return `playlist-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Picks the id slot for a new playlist or server, one past the highest in use
+ */
+export function getNextIdSlot(entries: Array<{ idSlot?: number }>): number {
+  return entries.reduce((next, entry) => (entry.idSlot !== undefined ? Math.max(next, entry.idSlot + 1) : next), 0);
+}
+
+/**
+ * Gives entries saved before id slots existed a slot, in list order
+ */
+function assignIdSlots<T extends { idSlot?: number }>(entries: T[]): T[] {
+  const assigned = [...entries];
+  for (let i = 0; i < assigned.length; i++) {
+    if (assigned[i].idSlot === undefined) {
+      assigned[i] = { ...assigned[i], idSlot: getNextIdSlot(assigned) };
+    }
+  }
+  return assigned;
+}
+
+export function createPlaylist(name: string = "New Playlist", url: string = "", idSlot: number = 0): IPTVPlaylist {
+  return {
+    id: generatePlaylistId(),
+    name,
+    url,
+    enabled: true,
+    autoSync: false,
+    syncIntervalDays: 7,
+    syncTime: "03:00", // 3 AM by default
+    lastSync: null,
+    itemCount: null,
+    idSlot,
+  };
+}
+
+export function createPlexServer(
+  name: string = "Plex Server",
+  url: string = "",
+  token: string = "",
+  idSlot: number = 0
+): PlexServer {
+  return {
+    id: `plex-server-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    url,
+    token,
+    enabled: true,
+    libraries: [],
+    idSlot,
+  };
+}
+
+/**
+ * Converts the old single-URL IPTV settings into a playlist entry
+ */
+function migrateLegacyIptvSettings(parsed: any): any {
+  if (Array.isArray(parsed.iptvPlaylists) || !("iptvUrl" in parsed)) {
+    return parsed;
+  }
+
+  const { iptvUrl, iptvAutoSync, iptvSyncIntervalDays, iptvSyncTime, iptvLastSync, ...rest } = parsed;
+  const playlists: IPTVPlaylist[] = [];
+
+  if (iptvUrl) {
+    playlists.push({
+      ...createPlaylist("IPTV", iptvUrl),
+      // Fixed, as the migration runs on every load until settings are next saved
+      id: "playlist-legacy",
+      autoSync: iptvAutoSync ?? false,
+      syncIntervalDays: iptvSyncIntervalDays ?? 7,
+      syncTime: iptvSyncTime ?? "03:00",
+      // The old cache isn't per-playlist, so the first sync has to run again
+      lastSync: null,
+    });
+  }
+
+  return { ...rest, iptvPlaylists: playlists };
+}
+
+/**
+ * Converts the old single-server Plex settings into a server entry
+ */
+function migrateLegacyPlexSettings(parsed: any): any {
+  if (Array.isArray(parsed.plexServers) || !("plexUrl" in parsed)) {
+    return parsed;
+  }
+
+  const { plexUrl, plexToken, ...rest } = parsed;
+  return {
+    ...rest,
+    // Fixed id, as the migration runs on every load until settings are next saved
+    plexServers: plexUrl ? [{ ...createPlexServer("Plex Server", plexUrl, plexToken || ""), id: "plex-server-legacy" }] : [],
+  };
+}
+
 export function loadSettings(): AppSettings {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (!stored) return DEFAULT_SETTINGS;
     
-    const parsed = JSON.parse(stored);
+    const parsed = migrateLegacyPlexSettings(migrateLegacyIptvSettings(JSON.parse(stored)));
+    if (Array.isArray(parsed.iptvPlaylists)) {
+      parsed.iptvPlaylists = assignIdSlots(parsed.iptvPlaylists);
+    }
+    if (Array.isArray(parsed.plexServers)) {
+      parsed.plexServers = assignIdSlots(parsed.plexServers);
+    }
     // Merge with defaults to ensure all fields exist
     return { ...DEFAULT_SETTINGS, ...parsed };
   } catch (error) {
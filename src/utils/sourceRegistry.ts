@@ -0,0 +1,112 @@
+import { ContentItem } from "../types/content";
+import { SourceAdapter, SyncTarget } from "../types/source";
+import { AppSettings, loadSettings } from "./settings";
+import { iptvAdapter } from "./iptvSync";
+import { plexAdapter } from "./plexSync";
+import { xtreamAdapter } from "./xtreamSync";
+import { jellyfinAdapter } from "./jellyfinSync";
+
+/**
+ * Registered content sources, in the order they are loaded and shown in Settings
+ * Built on call because the sync modules import dataLoader, which imports this registry
+ */
+export function getSourceAdapters(): SourceAdapter[] {
+  return [iptvAdapter, plexAdapter, xtreamAdapter, jellyfinAdapter];
+}
+
+export function getSourceAdapter(id: string): SourceAdapter | undefined {
+  return getSourceAdapters().find((adapter) => adapter.id === id);
+}
+
+export function isSourceEnabled(adapter: SourceAdapter, settings: AppSettings): boolean {
+  return settings[adapter.settingsSchema.enabledKey];
+}
+
+/**
+ * Checks that every required settings field has a value, or runs the adapter's own check
+ */
+export function isSourceConfigured(adapter: SourceAdapter, settings: AppSettings): boolean {
+  if (adapter.isConfigured) {
+    return adapter.isConfigured(settings);
+  }
+  return adapter.settingsSchema.fields.every((field) => field.required === false || !!settings[field.key]);
+}
+
+/**
+ * Lists the sync targets of an enabled and configured source
+ */
+export function getSyncTargets(adapter: SourceAdapter, settings: AppSettings): SyncTarget[] {
+  if (!isSourceEnabled(adapter, settings) || !isSourceConfigured(adapter, settings)) {
+    return [];
+  }
+
+  if (adapter.getSyncTargets) {
+    return adapter.getSyncTargets(settings);
+  }
+
+  const schedule = adapter.settingsSchema.schedule;
+  if (!schedule) return [];
+
+  return [{
+    id: adapter.id,
+    name: adapter.displayName,
+    autoSync: settings[schedule.autoSyncKey],
+    syncIntervalDays: settings[schedule.syncIntervalDaysKey],
+    syncTime: settings[schedule.syncTimeKey],
+    lastSync: settings[schedule.lastSyncKey],
+  }];
+}
+
+/**
+ * Checks if a sync is due for a target based on its schedule
+ */
+export function isSyncDue(target: SyncTarget): boolean {
+  if (!target.autoSync) {
+    return false;
+  }
+
+  // If never synced, sync is due
+  if (!target.lastSync) {
+    return true;
+  }
+
+  const lastSync = new Date(target.lastSync);
+  const now = new Date();
+
+  // Check if enough days have passed
+  const daysSinceSync = Math.floor((now.getTime() - lastSync.getTime()) / (1000 * 60 * 60 * 24));
+
+  if (daysSinceSync < target.syncIntervalDays) {
+    return false;
+  }
+
+  // Check if we're past the scheduled time today
+  const [hours, minutes] = target.syncTime.split(":").map(Number);
+  const scheduledTime = new Date();
+  scheduledTime.setHours(hours, minutes, 0, 0);
+
+  return now >= scheduledTime;
+}
+
+/**
+ * Loads and merges the cached items of all enabled sources
+ */
+export async function loadEnabledSourceItems(): Promise<ContentItem[]> {
+  const settings = loadSettings();
+  const combinedData: ContentItem[] = [];
+
+  for (const adapter of getSourceAdapters()) {
+    if (!isSourceEnabled(adapter, settings)) continue;
+
+    try {
+      const items = await adapter.loadCachedItems();
+      if (items && items.length > 0) {
+        combinedData.push(...items);
+      }
+    } catch (error) {
+      console.error(`Failed to load ${adapter.displayName} data:`, error);
+    }
+  }
+
+  return combinedData;
+}
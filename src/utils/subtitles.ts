@@ -0,0 +1,259 @@
+import { ContentItem } from "../types/content";
+import { AppSettings, SubtitleBackground, SubtitlePosition, SubtitleSize } from "./settings";
+import { getUrlExtension } from "./mediaCapabilities";
+
+/**
+ * Sidecar subtitles (SRT, WebVTT and basic ASS/SSA)
+ *
+ * Files are parsed into cues and written back out as WebVTT, which is the only
+ * format <track> elements play. Rewriting on the fly lets the timing offset and
+ * the position from Settings be applied to the cues themselves.
+ */
+
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number; // Seconds
+  text: string; // May contain <i>, <b> and <u>
+}
+
+// A subtitle file loaded into the player
+export interface LoadedSubtitle {
+  label: string;
+  language: string | null;
+  cues: SubtitleCue[];
+}
+
+const SUBTITLE_OFFSETS_KEY = "kedi_subtitle_offsets";
+
+// ::cue font sizes, relative to the player height
+const SUBTITLE_FONT_SIZES: Record<SubtitleSize, string> = {
+  small: "3.5vh",
+  medium: "4.5vh",
+  large: "6vh",
+};
+
+export const SUBTITLE_BACKGROUNDS: Record<SubtitleBackground, string> = {
+  none: "transparent",
+  translucent: "rgba(0, 0, 0, 0.6)",
+  solid: "#000000",
+};
+
+// Track element ids of loaded subtitles, so they can be told apart from the media's own tracks
+export const EXTERNAL_SUBTITLE_TRACK_PREFIX = "external-subtitle-";
+
+const TIMESTAMP_PATTERN = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+
+/**
+ * Reads "01:02:03,456" (SRT), "02:03.456" (WebVTT) or "1:02:03.45" (ASS) as seconds
+ */
+function parseTimestamp(value: string): number | null {
+  const match = value.match(TIMESTAMP_PATTERN);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return (parseInt(hours || "0", 10) * 3600) + (parseInt(minutes, 10) * 60) + parseInt(seconds, 10) +
+    parseInt(fraction.padEnd(3, "0"), 10) / 1000;
+}
+
+function formatTimestamp(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:` +
+    `${secs.toString().padStart(2, "0")}.${ms.toString().padStart(3, "0")}`;
+}
+
+/**
+ * Keeps the tags WebVTT understands and drops the rest (e.g. SRT <font>)
+ */
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<(\/?)([a-z]+)[^>]*>/gi, (_tag, slash, name) => (/^[ibu]$/i.test(name) ? `<${slash}${name.toLowerCase()}>` : ""))
+    .replace(/&(?![a-z]+;|#\d+;)/gi, "&amp;")
+    .trim();
+}
+
+/**
+ * Parses SRT and WebVTT, which share the "start --> end" block layout
+ */
+function parseBlocks(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const block of text.split(/\r?\n\s*\r?\n/)) {
+    const lines = block.split(/\r?\n/);
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex < 0) continue; // Header, NOTE or STYLE block
+
+    const [startValue, endValue] = lines[timingIndex].split("-->");
+    const start = parseTimestamp(startValue);
+    const end = parseTimestamp(endValue);
+    const cueText = cleanCueText(lines.slice(timingIndex + 1).join("\n"));
+    if (start !== null && end !== null && cueText) {
+      cues.push({ start, end, text: cueText });
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * Parses the Dialogue lines of an ASS/SSA script
+ * Styles, positioning and effects are dropped; italics and bold are kept
+ */
+function parseAss(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let fields: string[] = [];
+  let inEvents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith("[")) {
+      inEvents = line.toLowerCase() === "[events]";
+      continue;
+    }
+    if (!inEvents) continue;
+
+    if (line.startsWith("Format:")) {
+      fields = line.substring(7).split(",").map((field) => field.trim().toLowerCase());
+      continue;
+    }
+    if (!line.startsWith("Dialogue:") || fields.length === 0) continue;
+
+    // Text is the last field and may itself contain commas
+    const values = line.substring(9).split(",");
+    const textValue = values.slice(fields.length - 1).join(",");
+    const start = parseTimestamp(values[fields.indexOf("start")] || "");
+    const end = parseTimestamp(values[fields.indexOf("end")] || "");
+
+    const cueText = cleanCueText(
+      textValue
+        .replace(/\{\\i1\}/g, "<i>").replace(/\{\\i0\}/g, "</i>")
+        .replace(/\{\\b1\}/g, "<b>").replace(/\{\\b0\}/g, "</b>")
+        .replace(/\{[^}]*\}/g, "") // Other override tags
+        .replace(/\\N/gi, "\n")
+        .replace(/\\h/g, " ")
+    );
+    if (start !== null && end !== null && cueText) {
+      cues.push({ start, end, text: cueText });
+    }
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Works out the format from the file name, or from the content when the name doesn't tell
+ */
+export function detectSubtitleFormat(text: string, name?: string): SubtitleFormat {
+  const extension = name ? getUrlExtension(name) : null;
+  if (extension === "vtt") return "vtt";
+  if (extension === "ass" || extension === "ssa") return "ass";
+  if (extension === "srt") return "srt";
+
+  const start = text.replace(/^﻿/, "").trimStart();
+  if (start.startsWith("WEBVTT")) return "vtt";
+  if (start.startsWith("[Script Info]") || /^\s*Dialogue:/m.test(text)) return "ass";
+  return "srt";
+}
+
+/**
+ * Parses a subtitle file into cues
+ */
+export function parseSubtitles(text: string, format: SubtitleFormat = detectSubtitleFormat(text)): SubtitleCue[] {
+  const content = text.replace(/^﻿/, "");
+  return format === "ass" ? parseAss(content) : parseBlocks(content);
+}
+
+/**
+ * Writes cues as WebVTT, shifted by offset seconds
+ * Cues pushed before zero are dropped
+ */
+export function toWebVtt(cues: SubtitleCue[], offset = 0, position: SubtitlePosition = "bottom"): string {
+  const settings = position === "top" ? " line:0" : "";
+  const blocks = cues
+    .filter((cue) => cue.end + offset > 0)
+    .map((cue) => `${formatTimestamp(cue.start + offset)} --> ${formatTimestamp(cue.end + offset)}${settings}\n${cue.text}`);
+  return `WEBVTT\n\n${blocks.join("\n\n")}\n`;
+}
+
+/**
+ * Names a subtitle file by its file name, e.g. "Movie.en.srt" for ".../Movie.en.srt?token=..."
+ */
+export function getSubtitleLabel(nameOrUrl: string): string {
+  const name = nameOrUrl.split(/[?#]/)[0].split(/[\\/]/).pop() || nameOrUrl;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name; // Malformed escape
+  }
+}
+
+/**
+ * Downloads and parses a subtitle file
+ */
+export async function fetchSubtitles(url: string, signal?: AbortSignal): Promise<SubtitleCue[]> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  const text = await response.text();
+  return parseSubtitles(text, detectSubtitleFormat(text, url));
+}
+
+/**
+ * Reads and parses a subtitle file picked by the user
+ */
+export async function readSubtitleFile(file: File): Promise<SubtitleCue[]> {
+  const text = await file.text();
+  return parseSubtitles(text, detectSubtitleFormat(text, file.name));
+}
+
+/**
+ * Styles subtitles in the player from the Subtitles settings
+ */
+export function getSubtitleCss(settings: AppSettings): string {
+  // Without a background, an outline keeps the text readable on bright scenes
+  const shadow = settings.subtitleBackground === "none" ? " text-shadow: 0 0 4px #000, 0 0 2px #000;" : "";
+  return `video::cue { font-size: ${SUBTITLE_FONT_SIZES[settings.subtitleSize]}; color: ${settings.subtitleColor}; ` +
+    `background-color: ${SUBTITLE_BACKGROUNDS[settings.subtitleBackground]};${shadow} }`;
+}
+
+// Offsets are stored per item, keyed like the item across syncs
+const getOffsetKey = (item: ContentItem) => `${item.source}:${item.remoteId || item.url}`;
+
+function loadSubtitleOffsets(): Record<string, number> {
+  try {
+    const stored = localStorage.getItem(SUBTITLE_OFFSETS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Error loading subtitle offsets:", error);
+    return {};
+  }
+}
+
+/**
+ * Reads the subtitle timing offset set for an item, in seconds
+ */
+export function getSubtitleOffset(item: ContentItem): number {
+  return loadSubtitleOffsets()[getOffsetKey(item)] || 0;
+}
+
+/**
+ * Remembers the subtitle timing offset for an item; zero removes it
+ */
+export function saveSubtitleOffset(item: ContentItem, offset: number): void {
+  const offsets = loadSubtitleOffsets();
+  if (offset) {
+    offsets[getOffsetKey(item)] = offset;
+  } else {
+    delete offsets[getOffsetKey(item)];
+  }
+  try {
+    localStorage.setItem(SUBTITLE_OFFSETS_KEY, JSON.stringify(offsets));
+  } catch (error) {
+    console.error("Error saving subtitle offsets:", error);
+  }
+}
@@ -0,0 +1,422 @@
+/**
+ * Background Sync Manager
+ *
+ * Runs source and guide syncs one at a time while the app is open.
+ * Features:
+ * - Schedule check on a timer (not only at startup)
+ * - Serialized job queue shared by auto and manual syncs
+ * - Retries with exponential backoff
+ * - Cancellation through AbortController
+ * - Persistent run log shown in Settings
+ */
+
+import { SyncResult, SyncTarget } from "../types/source";
+import { loadSettings } from "./settings";
+import { getSourceAdapters, getSourceAdapter, getSyncTargets, isSyncDue } from "./sourceRegistry";
+import { getEpgSyncTarget, syncEpgData } from "./epgSync";
+
+export type SyncTrigger = "auto" | "manual";
+
+export interface SyncJob {
+  key: string; // sourceId:targetId
+  sourceId: string; // Adapter id, or "epg" for the programme guide
+  targetId: string;
+  name: string;
+  trigger: SyncTrigger;
+  reloadsContent: boolean; // Guide syncs do not change the catalog
+}
+
+export interface SyncLogEntry {
+  id: string;
+  jobKey: string;
+  name: string;
+  trigger: SyncTrigger;
+  startedAt: string; // ISO date string
+  endedAt: string | null; // ISO date string
+  status: "running" | "success" | "error" | "cancelled";
+  attempts: number;
+  itemCount: number | null;
+  error: string | null;
+}
+
+export interface SyncManagerState {
+  running: SyncJob | null;
+  progress: string | null;
+  progressPercent: number | null;
+  queued: SyncJob[];
+  log: SyncLogEntry[];
+}
+
+export interface SyncManagerHandlers {
+  onProgress?: (job: SyncJob, message: string, percent?: number) => void;
+  onResult?: (job: SyncJob, result: SyncResult) => void;
+  onIdle?: () => void; // Queue drained
+}
+
+export const EPG_SOURCE_ID = "epg";
+const SYNC_LOG_KEY = "kedi_sync_log";
+const MAX_LOG_ENTRIES = 50;
+const CHECK_INTERVAL = 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 5 * 1000; // 5s, 10s, ...
+const FAILURE_COOLDOWN = 60 * 60 * 1000; // Wait an hour before auto-retrying a failed or cancelled job
+
+type ProgressCallback = (message: string, percent?: number) => void;
+
+interface QueuedJob {
+  job: SyncJob;
+  onProgress?: ProgressCallback;
+  resolvers: Array<(result: SyncResult) => void>;
+}
+
+const queue: QueuedJob[] = [];
+const listeners = new Set<() => void>();
+let current: (QueuedJob & { controller: AbortController }) | null = null;
+let progress: string | null = null;
+let progressPercent: number | null = null;
+let isProcessing = false;
+let checkTimer: ReturnType<typeof setInterval> | null = null;
+let handlers: SyncManagerHandlers = {};
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Loads the persisted sync log, newest first
+ */
+export function loadSyncLog(): SyncLogEntry[] {
+  try {
+    const stored = localStorage.getItem(SYNC_LOG_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to load sync log:", error);
+    return [];
+  }
+}
+
+function saveSyncLog(log: SyncLogEntry[]): void {
+  try {
+    localStorage.setItem(SYNC_LOG_KEY, JSON.stringify(log.slice(0, MAX_LOG_ENTRIES)));
+  } catch (error) {
+    console.error("Failed to save sync log:", error);
+  }
+}
+
+function updateLogEntry(entry: SyncLogEntry): void {
+  const log = loadSyncLog().filter((e) => e.id !== entry.id);
+  saveSyncLog([entry, ...log]);
+  notify();
+}
+
+export function clearSyncLog(): void {
+  localStorage.removeItem(SYNC_LOG_KEY);
+  notify();
+}
+
+/**
+ * Builds a job for a source target
+ */
+function createJob(sourceId: string, target: SyncTarget, trigger: SyncTrigger): SyncJob {
+  const adapter = getSourceAdapter(sourceId);
+  return {
+    key: `${sourceId}:${target.id}`,
+    sourceId,
+    targetId: target.id,
+    name: adapter && target.id !== adapter.id ? `${adapter.displayName} (${target.name})` : target.name,
+    trigger,
+    reloadsContent: sourceId !== EPG_SOURCE_ID,
+  };
+}
+
+/**
+ * Runs a job once; errors thrown by the sync are returned as a failed result
+ */
+async function executeJob(job: SyncJob, signal: AbortSignal, onProgress: ProgressCallback): Promise<SyncResult> {
+  try {
+    const settings = loadSettings();
+
+    if (job.sourceId === EPG_SOURCE_ID) {
+      return await syncEpgData(settings.epgUrl, onProgress, signal);
+    }
+
+    const adapter = getSourceAdapter(job.sourceId);
+    if (!adapter) {
+      return { success: false, message: `Unknown source: ${job.sourceId}` };
+    }
+    return await adapter.sync(settings, { targetId: job.targetId, signal, onProgress });
+  } catch (error) {
+    console.error(`Sync of ${job.key} failed:`, error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Waits for the given time, rejecting early when the signal is aborted
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal!.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs a job with retries and records it in the log
+ */
+async function runJob(queued: QueuedJob): Promise<SyncResult> {
+  const { job } = queued;
+  const controller = new AbortController();
+  current = { ...queued, controller };
+  progress = null;
+  progressPercent = null;
+
+  const entry: SyncLogEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    jobKey: job.key,
+    name: job.name,
+    trigger: job.trigger,
+    startedAt: new Date().toISOString(),
+    endedAt: null,
+    status: "running",
+    attempts: 0,
+    itemCount: null,
+    error: null,
+  };
+  updateLogEntry(entry);
+
+  const reportProgress = (message: string, percent?: number) => {
+    progress = message;
+    progressPercent = percent ?? null;
+    queued.onProgress?.(message, percent);
+    handlers.onProgress?.(job, message, percent);
+    notify();
+  };
+
+  let result: SyncResult = { success: false, message: "Sync did not run" };
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    entry.attempts = attempt;
+    result = await executeJob(job, controller.signal, reportProgress);
+
+    if (result.success || controller.signal.aborted || attempt === MAX_ATTEMPTS) {
+      break;
+    }
+
+    const retryDelay = RETRY_BASE_DELAY * 2 ** (attempt - 1);
+    reportProgress(`${result.message} - retrying in ${retryDelay / 1000}s`);
+    try {
+      await delay(retryDelay, controller.signal);
+    } catch {
+      break;
+    }
+  }
+
+  if (controller.signal.aborted) {
+    result = { success: false, message: "Sync cancelled" };
+  }
+
+  updateLogEntry({
+    ...entry,
+    endedAt: new Date().toISOString(),
+    status: result.success ? "success" : controller.signal.aborted ? "cancelled" : "error",
+    itemCount: result.itemCount ?? null,
+    error: result.success ? null : result.message,
+  });
+
+  current = null;
+  progress = null;
+  progressPercent = null;
+  return result;
+}
+
+/**
+ * Processes queued jobs one at a time
+ */
+async function processQueue(): Promise<void> {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    while (queue.length > 0) {
+      const queued = queue.shift()!;
+      let result: SyncResult = { success: false, message: "Sync did not run" };
+
+      try {
+        notify();
+        result = await runJob(queued);
+      } catch (error) {
+        console.error(`Sync of ${queued.job.key} failed:`, error);
+        result = {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        };
+      } finally {
+        current = null;
+        progress = null;
+        progressPercent = null;
+        queued.resolvers.forEach((resolve) => resolve(result));
+      }
+
+      handlers.onResult?.(queued.job, result);
+      notify();
+    }
+  } finally {
+    isProcessing = false;
+  }
+  handlers.onIdle?.();
+}
+
+/**
+ * Adds a job to the queue; a job already queued or running is not added twice
+ */
+function enqueue(job: SyncJob, onProgress?: ProgressCallback): Promise<SyncResult> {
+  return new Promise((resolve) => {
+    const existing = current?.job.key === job.key ? current : queue.find((q) => q.job.key === job.key);
+    if (existing) {
+      existing.resolvers.push(resolve);
+      return;
+    }
+
+    queue.push({ job, onProgress, resolvers: [resolve] });
+    notify();
+    processQueue();
+  });
+}
+
+/**
+ * Checks if the last run of a job failed (after all retries) or was cancelled recently
+ */
+function isCoolingDown(jobKey: string, log: SyncLogEntry[]): boolean {
+  const last = log.find((entry) => entry.jobKey === jobKey);
+  return (
+    (last?.status === "error" || last?.status === "cancelled") &&
+    !!last.endedAt &&
+    Date.now() - new Date(last.endedAt).getTime() < FAILURE_COOLDOWN
+  );
+}
+
+/**
+ * Queues every source target and the guide when their schedule is due
+ */
+export function checkSchedules(): void {
+  const settings = loadSettings();
+  const log = loadSyncLog();
+  const dueJobs: SyncJob[] = [];
+
+  for (const adapter of getSourceAdapters()) {
+    for (const target of getSyncTargets(adapter, settings)) {
+      if (isSyncDue(target)) {
+        dueJobs.push(createJob(adapter.id, target, "auto"));
+      }
+    }
+  }
+
+  const epgTarget = getEpgSyncTarget(settings);
+  if (epgTarget && isSyncDue(epgTarget)) {
+    dueJobs.push(createJob(EPG_SOURCE_ID, epgTarget, "auto"));
+  }
+
+  dueJobs
+    .filter((job) => !isCoolingDown(job.key, log))
+    .forEach((job) => enqueue(job));
+}
+
+/**
+ * Runs a sync now (queued behind any running job)
+ * targetId defaults to the source itself, for sources with a single target
+ */
+export function requestSync(
+  sourceId: string,
+  targetId: string = sourceId,
+  onProgress?: ProgressCallback
+): Promise<SyncResult> {
+  const settings = loadSettings();
+  const target = sourceId === EPG_SOURCE_ID
+    ? getEpgSyncTarget(settings)
+    : getSyncTargets(getSourceAdapter(sourceId)!, settings).find((t) => t.id === targetId);
+
+  if (!target) {
+    return Promise.resolve({ success: false, message: "Source is disabled or not configured" });
+  }
+
+  return enqueue(createJob(sourceId, target, "manual"), onProgress);
+}
+
+/**
+ * Cancels the running job, and optionally everything queued behind it
+ */
+export function cancelSync(options: { clearQueue?: boolean } = {}): void {
+  if (options.clearQueue) {
+    const cancelled = queue.splice(0, queue.length);
+    cancelled.forEach((queued) =>
+      queued.resolvers.forEach((resolve) => resolve({ success: false, message: "Sync cancelled" }))
+    );
+  }
+  current?.controller.abort();
+  notify();
+}
+
+export function getSyncManagerState(): SyncManagerState {
+  return {
+    running: current?.job || null,
+    progress,
+    progressPercent,
+    queued: queue.map((queued) => queued.job),
+    log: loadSyncLog(),
+  };
+}
+
+/**
+ * Subscribes to queue, progress and log changes; returns an unsubscribe function
+ */
+export function subscribeSyncManager(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Starts checking schedules on a timer; returns a stop function
+ */
+export function startSyncManager(syncHandlers: SyncManagerHandlers = {}): () => void {
+  handlers = syncHandlers;
+
+  // Runs that were interrupted by closing the app can never finish
+  const log = loadSyncLog();
+  if (log.some((entry) => entry.status === "running") && !current) {
+    saveSyncLog(log.map((entry) =>
+      entry.status === "running"
+        ? { ...entry, status: "cancelled", endedAt: entry.startedAt, error: "Interrupted" }
+        : entry
+    ));
+  }
+
+  checkSchedules();
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = setInterval(checkSchedules, CHECK_INTERVAL);
+
+  return () => {
+    if (checkTimer) {
+      clearInterval(checkTimer);
+      checkTimer = null;
+    }
+    handlers = {};
+  };
+}
@@ -0,0 +1,110 @@
+import { ContentItem } from "../types/content";
+import { MediaTrack } from "../types/playback";
+import { normalizeLanguage } from "./m3uParser";
+import { loadSettings } from "./settings";
+import { getSeriesPreferences, updateSeriesPreferences } from "./seriesPreferences";
+
+/**
+ * Default audio and subtitle tracks, from the language priority in Settings
+ *
+ * Series can override the languages: picking a track in the player
+ * remembers its language for the rest of the series.
+ */
+
+export interface TrackPreferences {
+  languages: string[]; // App language codes, highest priority first
+  audioLanguage?: string; // Series override
+  subtitleLanguage?: string | null; // Series override, null for off
+}
+
+/**
+ * Reads the language priority for an item, with its series overrides
+ */
+export function getTrackPreferences(item: ContentItem): TrackPreferences {
+  const preferences: TrackPreferences = { languages: loadSettings().languagePreferences };
+  if (item.type !== "Series") return preferences;
+
+  const { audioLanguage, subtitleLanguage } = getSeriesPreferences(item);
+  return { ...preferences, audioLanguage, subtitleLanguage };
+}
+
+/**
+ * Maps a stream's language tag ("en", "eng", "en-US", ...) to the app's language code
+ */
+export function getTrackLanguage(track: MediaTrack): string | null {
+  return normalizeLanguage(track.language?.split(/[-_]/)[0]);
+}
+
+/**
+ * Names a track by its title, falling back to its language in the user's locale
+ */
+export function getTrackLabel(language: string | null | undefined, title: string | null | undefined, index: number): string {
+  if (title) return title;
+  if (!language) return `Track ${index + 1}`;
+
+  try {
+    return new Intl.DisplayNames([navigator.language], { type: "language" }).of(language) || language;
+  } catch {
+    return language; // Not a valid BCP 47 tag
+  }
+}
+
+const findTrack = (tracks: MediaTrack[], language: string) =>
+  tracks.find((track) => getTrackLanguage(track) === language);
+
+/**
+ * Picks the audio track in the series language, else in the highest priority language
+ * Returns null when no track matches, which keeps the stream's default
+ */
+export function pickAudioTrack(tracks: MediaTrack[], preferences: TrackPreferences): number | null {
+  const languages = preferences.audioLanguage
+    ? [preferences.audioLanguage, ...preferences.languages]
+    : preferences.languages;
+
+  for (const language of languages) {
+    const track = findTrack(tracks, language);
+    if (track) return track.id;
+  }
+  return null;
+}
+
+/**
+ * Picks the subtitle track, or null for off
+ * Without a series override, subtitles come on in a language the user ranks above
+ * the audio language, e.g. Turkish subtitles for English audio with Turkish first.
+ * They stay off when the audio language is unknown.
+ */
+export function pickTextTrack(
+  tracks: MediaTrack[],
+  preferences: TrackPreferences,
+  audioLanguage: string | null
+): number | null {
+  if (preferences.subtitleLanguage !== undefined) {
+    return preferences.subtitleLanguage ? findTrack(tracks, preferences.subtitleLanguage)?.id ?? null : null;
+  }
+  if (!audioLanguage) return null;
+
+  const audioRank = preferences.languages.indexOf(audioLanguage);
+  const candidates = audioRank >= 0 ? preferences.languages.slice(0, audioRank) : preferences.languages;
+
+  for (const language of candidates) {
+    const track = findTrack(tracks, language);
+    if (track) return track.id;
+  }
+  return null;
+}
+
+/**
+ * Remembers a track picked in the player for the rest of the series
+ */
+export function saveTrackOverride(item: ContentItem, kind: "audio" | "text", track: MediaTrack | null): void {
+  if (item.type !== "Series") return;
+
+  const language = track ? getTrackLanguage(track) : null;
+  if (kind === "audio") {
+    // Tracks without a known language can't be matched in other episodes
+    if (language) updateSeriesPreferences(item, { audioLanguage: language });
+  } else if (!track || language) {
+    updateSeriesPreferences(item, { subtitleLanguage: language });
+  }
+}
@@ -1,4 +1,4 @@
-import { WatchHistoryItem, ContentItem } from "../types/content";
+import { WatchHistoryItem, ContentItem, RemoteWatchState } from "../types/content";
 
 const WATCH_HISTORY_KEY = "iptv_watch_history";
 const MAX_HISTORY_ITEMS = 12;
@@ -54,6 +54,43 @@ export function saveWatchProgress(
   }
 }
 
+/**
+ * Merges watch state from a media server into the history
+ * The newer of the local and remote state wins; items finished elsewhere leave the history
+ */
+export function importWatchState(states: RemoteWatchState[]): void {
+  try {
+    const historyByUrl = new Map(loadWatchHistory().map((h) => [h.content.url, h]));
+
+    for (const state of states) {
+      const existing = historyByUrl.get(state.content.url);
+      if (existing && existing.lastWatched >= state.lastWatched) continue;
+
+      const progress = state.duration > 0 ? (state.currentTime / state.duration) * 100 : 0;
+
+      if (progress >= MIN_PROGRESS_PERCENT && progress <= MAX_PROGRESS_PERCENT) {
+        historyByUrl.set(state.content.url, {
+          content: state.content,
+          currentTime: state.currentTime,
+          duration: state.duration,
+          lastWatched: state.lastWatched,
+          progress: Math.round(progress)
+        });
+      } else if (existing && (state.watched || progress > MAX_PROGRESS_PERCENT)) {
+        historyByUrl.delete(state.content.url);
+      }
+    }
+
+    const updatedHistory = Array.from(historyByUrl.values())
+      .sort((a, b) => b.lastWatched - a.lastWatched)
+      .slice(0, MAX_HISTORY_ITEMS);
+
+    localStorage.setItem(WATCH_HISTORY_KEY, JSON.stringify(updatedHistory));
+  } catch (error) {
+    console.error("Error importing watch state:", error);
+  }
+}
+
 export function getLastWatchedTime(item: ContentItem): number | null {
   const history = loadWatchHistory();
   const historyItem = history.find(h => h.content.url === item.url);
@@ -0,0 +1,414 @@
+import { ContentItem } from "../types/content";
+import { SourceAdapter, SyncResult } from "../types/source";
+import { AppSettings, loadSettings, saveSettings } from "./settings";
+import { clearCache } from "./dataLoader";
+import { createCatalogStore } from "./catalogStorage";
+import { extractPrefix, normalizeLanguage, detectQuality } from "./m3uParser";
+
+// Catalogs saved as a single record are migrated on first load
+const LEGACY_XTREAM_DATA_KEY = "xtream-data";
+
+// Ids are the server's stream id in a range per kind, as live, movie and episode ids are numbered separately
+const XTREAM_LIVE_ID_OFFSET = 2000000000000; // Above the IPTV range, below Plex
+const XTREAM_MOVIE_ID_OFFSET = 2010000000000;
+const XTREAM_EPISODE_ID_OFFSET = 2020000000000;
+
+// Some panels send stream ids as strings
+const getXtreamId = (offset: number, streamId: number | string) => offset + parseInt(String(streamId), 10);
+
+const xtreamCatalog = createCatalogStore("xtream", "Xtream Codes catalog cache for Kedi TV", {
+  load: (store) => store.getItem(LEGACY_XTREAM_DATA_KEY),
+  clear: (store) => store.removeItem(LEGACY_XTREAM_DATA_KEY),
+});
+
+export interface XtreamCredentials {
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+interface XtreamAccountInfo {
+  user_info?: {
+    auth?: number;
+    status?: string;
+    exp_date?: string | null;
+    max_connections?: string;
+    allowed_output_formats?: string[];
+  };
+  server_info?: {
+    url?: string;
+    port?: string;
+    server_protocol?: string;
+  };
+}
+
+interface XtreamCategory {
+  category_id: string;
+  category_name: string;
+}
+
+interface XtreamLiveStream {
+  num?: number;
+  name: string;
+  stream_id: number;
+  stream_icon?: string;
+  epg_channel_id?: string | null;
+  category_id?: string;
+}
+
+interface XtreamVodStream {
+  name: string;
+  stream_id: number;
+  stream_icon?: string;
+  category_id?: string;
+  container_extension?: string;
+  year?: string;
+  releaseDate?: string;
+}
+
+interface XtreamSeries {
+  name: string;
+  series_id: number;
+  cover?: string;
+  category_id?: string;
+  releaseDate?: string;
+  year?: string;
+}
+
+interface XtreamEpisode {
+  id: string;
+  episode_num: number | string;
+  title?: string;
+  container_extension?: string;
+  season?: number | string;
+  info?: {
+    movie_image?: string;
+  };
+}
+
+interface XtreamSeriesInfo {
+  info?: {
+    name?: string;
+    cover?: string;
+  };
+  episodes?: Record<string, XtreamEpisode[]> | XtreamEpisode[];
+}
+
+/**
+ * Reads the Xtream credentials from settings
+ */
+function getXtreamCredentials(settings: AppSettings): XtreamCredentials {
+  return {
+    serverUrl: settings.xtreamUrl,
+    username: settings.xtreamUsername,
+    password: settings.xtreamPassword,
+  };
+}
+
+/**
+ * Builds a player_api.php URL for the given action
+ */
+function buildApiUrl(credentials: XtreamCredentials, action?: string, params: Record<string, string> = {}): string {
+  const query = new URLSearchParams({
+    username: credentials.username,
+    password: credentials.password,
+    ...(action && { action }),
+    ...params,
+  });
+  return `${credentials.serverUrl}/player_api.php?${query.toString()}`;
+}
+
+/**
+ * Calls the Xtream Codes player API and returns the parsed JSON body
+ */
+async function fetchXtream<T>(
+  credentials: XtreamCredentials,
+  action?: string,
+  params?: Record<string, string>,
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetch(buildApiUrl(credentials, action, params), {
+    signal,
+    headers: {
+      Accept: "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Xtream request failed${action ? ` (${action})` : ""}: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Extracts the year from a year field or an ISO release date
+ */
+function parseYear(year?: string, releaseDate?: string): string | null {
+  const match = (year || releaseDate || "").match(/(?:19|20)\d{2}/);
+  return match ? match[0] : null;
+}
+
+/**
+ * Maps category ids to display names (without the country prefix) and languages
+ */
+function mapCategories(categories: XtreamCategory[]): Map<string, { name: string; language: string | null }> {
+  const map = new Map<string, { name: string; language: string | null }>();
+  for (const category of categories) {
+    const { prefix, rest } = extractPrefix(category.category_name || "");
+    map.set(String(category.category_id), {
+      name: rest || category.category_name,
+      language: normalizeLanguage(prefix),
+    });
+  }
+  return map;
+}
+
+/**
+ * Resolves display name and language for an item, preferring a prefix in the item's own name
+ */
+function resolveName(rawName: string, category?: { name: string; language: string | null }) {
+  const { prefix, rest } = extractPrefix(rawName);
+  return {
+    name: rest || rawName,
+    language: normalizeLanguage(prefix) || category?.language || null,
+  };
+}
+
+/**
+ * Verifies the credentials and returns the account information
+ */
+export async function testXtreamConnection(credentials: XtreamCredentials): Promise<XtreamAccountInfo> {
+  const serverUrl = credentials.serverUrl.replace(/\/$/, "");
+  const info = await fetchXtream<XtreamAccountInfo>({ ...credentials, serverUrl });
+
+  if (!info.user_info || info.user_info.auth === 0) {
+    throw new Error("Authentication failed - check username and password");
+  }
+
+  return info;
+}
+
+/**
+ * Fetches live channels, VOD and series episodes from an Xtream Codes server
+ */
+export async function fetchXtreamData(
+  credentials: XtreamCredentials,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<ContentItem[]> {
+  // Remove trailing slash from URL
+  const creds = { ...credentials, serverUrl: credentials.serverUrl.replace(/\/$/, "") };
+  const { serverUrl, username, password } = creds;
+
+  onProgress?.("Connecting to Xtream server...");
+  const account = await testXtreamConnection(creds);
+
+  // Prefer HLS for live streams when the account allows it
+  const formats = account.user_info?.allowed_output_formats || [];
+  const liveExtension = formats.includes("m3u8") ? "m3u8" : "ts";
+
+  const allItems: ContentItem[] = [];
+
+  // Live channels
+  onProgress?.("Fetching live channels...");
+  const liveCategories = mapCategories(await fetchXtream<XtreamCategory[]>(creds, "get_live_categories", {}, signal));
+  const liveStreams = await fetchXtream<XtreamLiveStream[]>(creds, "get_live_streams", {}, signal);
+
+  for (const stream of liveStreams) {
+    const category = liveCategories.get(String(stream.category_id));
+    const { name, language } = resolveName(stream.name, category);
+    const isRadio = /radio|radyo/i.test(category?.name || "");
+
+    allItems.push({
+      id: getXtreamId(XTREAM_LIVE_ID_OFFSET, stream.stream_id),
+      name,
+      language,
+      media: "Live",
+      type: isRadio ? "Radio" : "TV",
+      category: category?.name || null,
+      quality: detectQuality(stream.name),
+      platform: null,
+      year: null,
+      season: null,
+      episode: null,
+      logo: stream.stream_icon || "",
+      url: `${serverUrl}/live/${username}/${password}/${stream.stream_id}.${liveExtension}`,
+      source: "Xtream",
+      ...(stream.epg_channel_id && { tvgId: stream.epg_channel_id }),
+      ...(typeof stream.num === "number" && { channelNumber: stream.num }),
+    });
+  }
+
+  // Movies
+  onProgress?.("Fetching movies...");
+  const vodCategories = mapCategories(await fetchXtream<XtreamCategory[]>(creds, "get_vod_categories", {}, signal));
+  const vodStreams = await fetchXtream<XtreamVodStream[]>(creds, "get_vod_streams", {}, signal);
+
+  for (const stream of vodStreams) {
+    const category = vodCategories.get(String(stream.category_id));
+    const { name, language } = resolveName(stream.name, category);
+
+    allItems.push({
+      id: getXtreamId(XTREAM_MOVIE_ID_OFFSET, stream.stream_id),
+      name,
+      language,
+      media: "On Demand",
+      type: "Movie",
+      category: category?.name || null,
+      quality: detectQuality(stream.name),
+      platform: null,
+      year: parseYear(stream.year, stream.releaseDate),
+      season: null,
+      episode: null,
+      logo: stream.stream_icon || "",
+      url: `${serverUrl}/movie/${username}/${password}/${stream.stream_id}.${stream.container_extension || "mp4"}`,
+      source: "Xtream",
+    });
+  }
+
+  // Series - each show needs its own request to list seasons and episodes
+  onProgress?.("Fetching series...");
+  const seriesCategories = mapCategories(await fetchXtream<XtreamCategory[]>(creds, "get_series_categories", {}, signal));
+  const seriesList = await fetchXtream<XtreamSeries[]>(creds, "get_series", {}, signal);
+
+  for (let i = 0; i < seriesList.length; i++) {
+    const series = seriesList[i];
+    const category = seriesCategories.get(String(series.category_id));
+    const { name, language } = resolveName(series.name, category);
+
+    signal?.throwIfAborted();
+
+    try {
+      onProgress?.(`Fetching episodes (${i + 1}/${seriesList.length}): ${name}`);
+      const info = await fetchXtream<XtreamSeriesInfo>(creds, "get_series_info", {
+        series_id: String(series.series_id),
+      }, signal);
+
+      // Some panels return a flat array instead of an object keyed by season
+      const episodeGroups = Array.isArray(info.episodes)
+        ? { "": info.episodes }
+        : info.episodes || {};
+
+      for (const [seasonKey, episodes] of Object.entries(episodeGroups)) {
+        for (const episode of episodes) {
+          const season = String(episode.season ?? seasonKey);
+
+          allItems.push({
+            id: getXtreamId(XTREAM_EPISODE_ID_OFFSET, episode.id),
+            name,
+            language,
+            media: "On Demand",
+            type: "Series",
+            category: category?.name || null,
+            quality: detectQuality(series.name),
+            platform: null,
+            year: parseYear(series.year, series.releaseDate),
+            season: season ? parseInt(season, 10).toString() : null,
+            episode: episode.episode_num !== undefined ? parseInt(String(episode.episode_num), 10).toString() : null,
+            logo: series.cover || info.info?.cover || episode.info?.movie_image || "",
+            url: `${serverUrl}/series/${username}/${password}/${episode.id}.${episode.container_extension || "mp4"}`,
+            source: "Xtream",
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to fetch episodes for series ${series.name}:`, error);
+    }
+  }
+
+  onProgress?.(`Completed! Found ${allItems.length} items`);
+  return allItems;
+}
+
+/**
+ * Saves Xtream data to IndexedDB
+ */
+export async function saveXtreamData(data: ContentItem[]): Promise<void> {
+  await xtreamCatalog.save(data);
+}
+
+/**
+ * Loads Xtream data from IndexedDB
+ */
+export async function loadXtreamData(): Promise<ContentItem[] | null> {
+  return xtreamCatalog.load();
+}
+
+/**
+ * Clears Xtream data from IndexedDB
+ */
+export async function clearXtreamData(): Promise<void> {
+  await xtreamCatalog.clear();
+}
+
+/**
+ * Performs a sync operation: fetches and saves Xtream data
+ */
+export async function syncXtreamData(
+  credentials: XtreamCredentials,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<SyncResult> {
+  try {
+    const data = await fetchXtreamData(credentials, onProgress, signal);
+    signal?.throwIfAborted();
+    await saveXtreamData(data);
+
+    // Update last sync time
+    const settings = loadSettings();
+    settings.xtreamLastSync = new Date().toISOString();
+    saveSettings(settings);
+
+    // Clear the data cache so new content appears immediately
+    clearCache();
+
+    return {
+      success: true,
+      message: "Xtream data synced successfully",
+      itemCount: data.length,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+export const xtreamAdapter: SourceAdapter = {
+  id: "xtream",
+  displayName: "Xtream Codes",
+  description: "Connect to an Xtream Codes provider for live channels, movies and series",
+  settingsSchema: {
+    enabledKey: "xtreamEnabled",
+    fields: [
+      {
+        key: "xtreamUrl",
+        label: "Server URL",
+        type: "url",
+        placeholder: "http://provider.example.com:8080",
+        description: "The base URL without /player_api.php",
+      },
+      { key: "xtreamUsername", label: "Username", type: "text" },
+      { key: "xtreamPassword", label: "Password", type: "password" },
+    ],
+    schedule: {
+      autoSyncKey: "xtreamAutoSync",
+      syncIntervalDaysKey: "xtreamSyncIntervalDays",
+      syncTimeKey: "xtreamSyncTime",
+      lastSyncKey: "xtreamLastSync",
+    },
+  },
+  testConnection: async (settings) => {
+    const info = await testXtreamConnection(getXtreamCredentials(settings));
+    const status = info.user_info?.status || "Active";
+    const expDate = info.user_info?.exp_date
+      ? ` (expires ${new Date(parseInt(info.user_info.exp_date) * 1000).toLocaleDateString()})`
+      : "";
+    return `Xtream connection successful! Account ${status}${expDate} ✓`;
+  },
+  sync: (settings, options) => syncXtreamData(getXtreamCredentials(settings), options?.onProgress, options?.signal),
+  loadCachedItems: loadXtreamData,
+  clearCache: clearXtreamData,
+};
@@ -0,0 +1,5 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_PLEX_TV_URL?: string; // Local stand-in for plex.tv, for testing the sign-in flow
+}